@@ -3,16 +3,39 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { generateCompositeImage } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { findBranchTip, getRedoTarget, getScenePlacements, isAncestor } from './services/historyTree';
+import {
+  editCompositeImage, generateCompositeImage, PipelineProgressEvent, PIPELINE_STAGES, ProductPlacement, ReferenceProduct,
+  removeObject,
+} from './services/geminiService';
+import { CompositingError, SafetyBlockedError } from './services/compositingErrors';
+import { PROMPT_TEXT_LIMITS, truncateText } from './services/compositingPrompts';
+import { StoredProduct, listProducts, addProduct, updateProduct, deleteProduct, toProductFile } from './services/productLibrary';
+import { createProductCutout, refineProductCutout } from './services/productCutout';
+import { ProductCutout } from './services/imageOps';
+import {
+  DEFAULT_PROMPT_TEMPLATE, PromptTemplate, PromptTemplatePart, deletePromptTemplate, latestVersions, listPromptTemplates,
+  loadActivePromptTemplateId, saveActivePromptTemplateId, savePromptTemplate,
+} from './services/promptTemplates';
+import { loadSession, saveSession, clearSession, isSessionEmpty } from './services/sessionStore';
+import { ProjectContents, PROJECT_FILE_EXTENSION, exportProject, importProject } from './services/projectBundle';
 // FIX: Corrected import path for Product type.
-import { Product } from './components/types';
+import { Product, HistoryEntry, ProductDimensions, PlacementBox, PipelineStage } from './components/types';
 import Header from './components/Header';
 import ImageUploader from './components/ImageUploader';
 import ObjectCard from './components/ObjectCard';
 import Spinner from './components/Spinner';
-import DebugModal from './components/DebugModal';
+import DebugModal, { RegenerationEdits } from './components/DebugModal';
 import TouchGhost from './components/TouchGhost';
+import ProductSelector from './components/ProductSelector';
+import AddProductModal from './components/AddProductModal';
+import DimensionsEditor from './components/DimensionsEditor';
+import CandidatePicker from './components/CandidatePicker';
+import SceneComparison, { ComparisonMode } from './components/SceneComparison';
+import HistoryTree from './components/HistoryTree';
+import CutoutEditor from './components/CutoutEditor';
+import PromptTemplatesModal from './components/PromptTemplatesModal';
 
 // Pre-load a transparent image to use for hiding the default drag ghost.
 // This prevents a race condition on the first drag.
@@ -36,23 +59,142 @@ const dataURLtoFile = (dataurl: string, filename: string): File => {
     return new File([u8arr], filename, {type:mime});
 }
 
-const loadingMessages = [
-    "Analyzing your product...",
-    "Surveying the scene...",
-    "Describing placement location with AI...",
-    "Crafting the perfect composition prompt...",
-    "Generating photorealistic options...",
-    "Assembling the final scene..."
-];
-
-interface HistoryEntry {
-  sceneFile: File;
-  persistedOrbPosition: { x: number; y: number } | null;
-  debugImageUrl: string | null;
-  debugPrompt: string | null;
-  productRotation: number;
+// Upper bound for the number of candidates generated per drop.
+const MAX_CANDIDATES = 4;
+
+// How long to wait after the last change before writing the session to IndexedDB.
+const SESSION_SAVE_DELAY_MS = 500;
+
+const stageMessages: Record<PipelineStage, string> = {
+    resizing: "Preparing your product and scene...",
+    marking: "Marking the placement on the scene...",
+    describing: "Describing placement location with AI...",
+    composing: "Generating photorealistic options...",
+    cropping: "Assembling the final scene...",
+};
+
+// Helper to turn the latest pipeline event into the spinner text
+const describeProgress = (progress: PipelineProgressEvent | null): string => {
+    if (!progress) return stageMessages.resizing;
+    const message = stageMessages[progress.stage];
+    if (progress.status === 'progress' && progress.total && progress.total > 1) {
+        return `${message} (${progress.completed} of ${progress.total})`;
+    }
+    return message;
+};
+
+// Helper to estimate overall progress (0-1): finished stages count fully, the running one by its items
+const getProgressFraction = (progress: PipelineProgressEvent | null): number => {
+    if (!progress) return 0;
+    const stageIndex = PIPELINE_STAGES.indexOf(progress.stage);
+    const withinStage = progress.status === 'finished' ? 1
+        : progress.status === 'progress' && progress.total ? (progress.completed ?? 0) / progress.total
+        : 0;
+    return (stageIndex + withinStage) / PIPELINE_STAGES.length;
+};
+
+// Helper to pick the details of a library product that the selected product carries along
+const toProductDetails = (stored: StoredProduct): Omit<Product, 'imageUrl'> => ({
+    id: stored.id,
+    name: stored.name,
+    dimensions: stored.dimensions,
+    isCutout: !!stored.cutout,
+});
+
+// A product dropped on the scene while staging, waiting to be composed with the others in one pass.
+interface PendingPlacement {
+  id: number;
+  product: Product;
+  productFile: File;
+  orbPosition: { x: number; y: number };
+  relativePosition: { xPercent: number; yPercent: number; };
+  rotation: number;
+  scale: number;
+  // Set when the placement was made by dragging out a box: in container pixels and relative to the image.
+  orbBox?: { x: number; y: number; width: number; height: number };
+  targetBox?: PlacementBox;
+  // Set when the product should replace the object it was dropped on.
+  replacesObject?: boolean;
 }
 
+// Composes an existing entry's placements again, from that entry's parent scene, with corrections from the Debug view.
+interface Regeneration {
+  parentIndex: number;
+  locationDescriptions: string[];
+  // Sent as it is when the user edited the prompt itself.
+  prompt?: string;
+  mask?: File;
+  promptTemplate: PromptTemplate;
+}
+
+// A generation that failed, with what to run again if a retry makes sense: placements, a follow-up edit or a removal.
+interface FailedGeneration {
+  title: string;
+  placements: PendingPlacement[] | null;
+  regeneration?: Regeneration;
+  instruction?: string;
+  removalSelection?: File;
+}
+
+// One model-backed step on top of an existing scene, as run by `runGeneration`.
+interface GenerationRun {
+  // The entry the step starts from; the new entry becomes its child.
+  parentIndex: number;
+  // Shown on the scene while the step runs.
+  orbPositions: { x: number; y: number }[];
+  // Names the step in the console, e.g. 'Follow-up edit'.
+  label: string;
+  // Offered as a retry when the step fails in a way that running it again can fix.
+  retry: Omit<FailedGeneration, 'title'>;
+  // Runs the pipeline and builds the history entry it produced; `runGeneration` links it to its parent.
+  generate: (signal: AbortSignal, onProgress: (event: PipelineProgressEvent) => void) => Promise<Omit<HistoryEntry, 'parentIndex'>>;
+}
+
+// What went wrong with a generation, phrased for the user, and whether running it again makes sense.
+interface GenerationFailure {
+  title: string;
+  message: string;
+  canRetry: boolean;
+}
+
+// Helper to turn a pipeline error into a message that says what happened and what to do next
+const describeGenerationFailure = (err: unknown): GenerationFailure => {
+    const details = err instanceof Error ? err.message : 'An unknown error occurred.';
+    if (!(err instanceof CompositingError)) {
+        return { title: 'Generation Failed', message: `Failed to generate the image. ${details}`, canRetry: true };
+    }
+    switch (err.kind) {
+        case 'quota':
+            return {
+                title: 'Usage Limit Reached',
+                message: 'The AI service rejected the request because the API quota or rate limit was reached. Retrying right away will not help; wait a while or check the API key\'s plan.',
+                canRetry: false,
+            };
+        case 'transient':
+            return {
+                title: 'Connection Problem',
+                message: `The AI service could not be reached, even after several attempts. Retrying usually works once the connection is back. Details: ${details}`,
+                canRetry: true,
+            };
+        case 'safety': {
+            const reason = err instanceof SafetyBlockedError ? err.blockReason ?? err.finishReason : undefined;
+            return {
+                title: 'Blocked by Safety Filters',
+                message: `The AI model refused to create this image${reason ? ` (${reason})` : ''}. Retrying the same placement will not help; try a different product, scene or position.`,
+                canRetry: false,
+            };
+        }
+        case 'no-image':
+            return {
+                title: 'No Image Returned',
+                message: 'The AI model answered without an image. This happens occasionally, and retrying usually works.',
+                canRetry: true,
+            };
+        case 'invalid-input':
+            return { title: 'Invalid Request', message: details, canRetry: false };
+    }
+};
+
 const UndoIcon: React.FC = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
       <path strokeLinecap="round" strokeLinejoin="round" d="M11 15l-3-3m0 0l3-3m-3 3h8a5 5 0 010 10H6" />
@@ -71,16 +213,71 @@ const App: React.FC = () => {
   const [productImageFile, setProductImageFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [loadingMessageIndex, setLoadingMessageIndex] = useState(0);
+  // Set alongside `error` when a generation failed
+  const [failedGeneration, setFailedGeneration] = useState<FailedGeneration | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<PipelineProgressEvent | null>(null);
   const [isDebugModalOpen, setIsDebugModalOpen] = useState(false);
-  const [loadingOrbPosition, setLoadingOrbPosition] = useState<{x: number, y: number} | null>(null);
+  const [loadingOrbPositions, setLoadingOrbPositions] = useState<{x: number, y: number}[] | null>(null);
+  // Controller of the generation in flight, so it can be cancelled
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [productRotation, setProductRotation] = useState(0);
+  const [productScale, setProductScale] = useState(1);
+
+  // Staging state for placing several products in a single generation pass
+  const [isStaging, setIsStaging] = useState(false);
+  const [placementMode, setPlacementMode] = useState<'point' | 'box' | 'replace'>('point');
+  const [candidateCount, setCandidateCount] = useState(1);
+
+  // Inpainting mask painted over the scene
+  const [sceneMask, setSceneMask] = useState<File | null>(null);
+  const [isEditingMask, setIsEditingMask] = useState(false);
+  const [maskTool, setMaskTool] = useState<'brush' | 'eraser'>('brush');
+  const [maskBrushSize, setMaskBrushSize] = useState(5);
+  const [pendingPlacements, setPendingPlacements] = useState<PendingPlacement[]>([]);
+  // Follow-up edit typed under the scene
+  const [followUpInstruction, setFollowUpInstruction] = useState('');
+  // Object marked for removal with the red brush, which shares the mask's tool and size
+  const [removalSelection, setRemovalSelection] = useState<File | null>(null);
+  const [isSelectingObject, setIsSelectingObject] = useState(false);
 
-  // History state for undo/redo
+  // Persistent product library
+  const [library, setLibrary] = useState<StoredProduct[]>([]);
+  const [libraryProducts, setLibraryProducts] = useState<Product[]>([]);
+  const [isAddProductModalOpen, setIsAddProductModalOpen] = useState(false);
+
+  // Background removal for library products: running (error null) or failed, for one product at a time
+  const [cutoutStatus, setCutoutStatus] = useState<{ productId: number; error: string | null } | null>(null);
+  const [isCutoutEditorOpen, setIsCutoutEditorOpen] = useState(false);
+  const [isSavingCutout, setIsSavingCutout] = useState(false);
+
+  // Prompt templates: every saved version, and the template new generations use (its latest version)
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([DEFAULT_PROMPT_TEMPLATE]);
+  const [activePromptTemplateId, setActivePromptTemplateId] = useState(DEFAULT_PROMPT_TEMPLATE.id);
+  const [isPromptTemplatesOpen, setIsPromptTemplatesOpen] = useState(false);
+  // The selected product's id, for cutouts that finish after the user moved on to another product
+  const selectedProductIdRef = useRef<number | null>(null);
+
+  // History tree. Undo/redo move between the current entry and the branch tip.
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
+  const [branchTipIndex, setBranchTipIndex] = useState(-1);
+  // The history as last rendered, for generations that finish after it changed
+  const historyRef = useRef(history);
+  historyRef.current = history;
   const [sceneImageUrl, setSceneImageUrl] = useState<string | null>(null);
 
+  // Before/after comparison of the current scene with an earlier history entry
+  const [isComparing, setIsComparing] = useState(false);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('split');
+  const [comparisonIndex, setComparisonIndex] = useState<number | null>(null);
+
+  // Session persistence. Nothing is saved until the previous session has been read back,
+  // otherwise the empty initial state would overwrite it.
+  const [isSessionLoaded, setIsSessionLoaded] = useState(false);
+  const [restoredSessionAt, setRestoredSessionAt] = useState<number | null>(null);
+  const restoredTransformRef = useRef<{ rotation: number; scale: number } | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
   // State for touch drag & drop
   const [isTouchDragging, setIsTouchDragging] = useState<boolean>(false);
   const [touchGhostPosition, setTouchGhostPosition] = useState<{x: number, y: number} | null>(null);
@@ -89,13 +286,34 @@ const App: React.FC = () => {
   const sceneImgRef = useRef<HTMLImageElement>(null);
   
   const productImageUrl = selectedProduct ? selectedProduct.imageUrl : null;
+  // The library record behind the selected product; absent for products that are not in the library
+  const selectedLibraryProduct = selectedProduct ? library.find(p => p.id === selectedProduct.id) : undefined;
+  const activePromptTemplate = latestVersions(promptTemplates).find(t => t.id === activePromptTemplateId) ?? DEFAULT_PROMPT_TEMPLATE;
+  const selectedCutoutStatus = selectedProduct && cutoutStatus?.productId === selectedProduct.id ? cutoutStatus : null;
+
+  useEffect(() => {
+    selectedProductIdRef.current = selectedProduct?.id ?? null;
+  }, [selectedProduct]);
   
   // Derive current state from history
   const currentHistoryEntry = history[historyIndex];
   const sceneImage = currentHistoryEntry?.sceneFile;
-  const persistedOrbPosition = currentHistoryEntry?.persistedOrbPosition;
+  const persistedOrbPositions = currentHistoryEntry?.persistedOrbPositions;
   const debugImageUrl = currentHistoryEntry?.debugImageUrl;
   const debugPrompt = currentHistoryEntry?.debugPrompt;
+  // Entries from older versions lack the product images needed to generate them again.
+  const canRegenerate = !!currentHistoryEntry && currentHistoryEntry.parentIndex !== null
+    && currentHistoryEntry.placements.length > 0 && currentHistoryEntry.placements.every(p => p.productFile);
+  const sceneCandidates = useMemo(
+    () => currentHistoryEntry ? [currentHistoryEntry.sceneFile, ...currentHistoryEntry.alternateSceneFiles] : [],
+    [currentHistoryEntry]
+  );
+  // Compare against the chosen entry while it still exists and is not the current one, otherwise against the parent.
+  const comparisonTargetIndex = comparisonIndex !== null && comparisonIndex !== historyIndex && comparisonIndex < history.length
+    ? comparisonIndex
+    : currentHistoryEntry?.parentIndex ?? -1;
+  const comparisonEntry = comparisonTargetIndex >= 0 ? history[comparisonTargetIndex] : undefined;
+  const showComparison = isComparing && !!comparisonEntry && !isLoading;
   
   // Create and revoke scene image URL based on current history state
   useEffect(() => {
@@ -108,25 +326,61 @@ const App: React.FC = () => {
     }
   }, [sceneImage]);
 
-  // Sync rotation with history changes (undo/redo)
+  // Sync rotation and scale with history changes (undo/redo)
   useEffect(() => {
       if (currentHistoryEntry) {
+        // A freshly restored session keeps the rotation and scale the user last had, not the entry's.
+        if (restoredTransformRef.current !== null) {
+          setProductRotation(restoredTransformRef.current.rotation);
+          setProductScale(restoredTransformRef.current.scale);
+          restoredTransformRef.current = null;
+          return;
+        }
         setProductRotation(currentHistoryEntry.productRotation);
+        setProductScale(currentHistoryEntry.productScale);
       }
   }, [currentHistoryEntry]);
 
-  const handleProductImageUpload = useCallback((file: File) => {
+  // Load the product library once on startup
+  useEffect(() => {
+    listProducts()
+      .then(setLibrary)
+      .catch(err => console.error('Could not load the product library:', err));
+  }, []);
+
+  // Load the prompt templates and the one in use once on startup
+  useEffect(() => {
+    Promise.all([listPromptTemplates(), loadActivePromptTemplateId()])
+      .then(([templates, activeId]) => {
+        setPromptTemplates(templates);
+        setActivePromptTemplateId(activeId);
+      })
+      .catch(err => console.error('Could not load the prompt templates:', err));
+  }, []);
+
+  // Create and revoke object URLs for the library cards
+  useEffect(() => {
+    const products = library.map(stored => ({
+        ...toProductDetails(stored),
+        imageUrl: URL.createObjectURL(stored.cutout ?? stored.image),
+    }));
+    setLibraryProducts(products);
+    return () => products.forEach(product => URL.revokeObjectURL(product.imageUrl));
+  }, [library]);
+
+  const selectProductFile = useCallback((file: File, details: Omit<Product, 'imageUrl'>) => {
     setError(null);
     try {
+        // The selected product gets its own object URL so revoking it never affects the library cards.
         const imageUrl = URL.createObjectURL(file);
         const product: Product = {
-            id: Date.now(),
-            name: file.name,
+            ...details,
             imageUrl: imageUrl,
         };
         setProductImageFile(file);
         setSelectedProduct(product);
         setProductRotation(0);
+        setProductScale(1);
     } catch(err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Could not load the product image. Details: ${errorMessage}`);
@@ -134,15 +388,233 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Replace the whole editing state with a saved session or an imported project
+  const applySavedState = useCallback((state: ProjectContents) => {
+    restoredTransformRef.current = { rotation: state.productRotation, scale: state.productScale };
+    const historyIndex = Math.min(state.historyIndex, state.history.length - 1);
+    setHistory(state.history);
+    setHistoryIndex(historyIndex);
+    setBranchTipIndex(historyIndex >= 0 ? findBranchTip(state.history, historyIndex) : -1);
+    setPendingPlacements([]);
+    setSceneMask(null);
+    setRemovalSelection(null);
+    if (state.product) {
+      const { file, ...details } = state.product;
+      selectProductFile(file, details);
+    } else {
+      setSelectedProduct(null);
+      setProductImageFile(null);
+    }
+    setProductRotation(state.productRotation);
+    setProductScale(state.productScale);
+  }, [selectProductFile]);
+
+  // Rehydrate the previous editing session once on startup
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        if (!session || isSessionEmpty(session)) return;
+        applySavedState(session);
+        setRestoredSessionAt(session.savedAt);
+      })
+      .catch(err => console.error('Could not restore the previous session:', err))
+      .finally(() => setIsSessionLoaded(true));
+  }, [applySavedState]);
+
+  // Persist the session shortly after every change
+  useEffect(() => {
+    if (!isSessionLoaded) return;
+    const timeout = setTimeout(() => {
+      saveSession({
+        history,
+        historyIndex,
+        product: selectedProduct && productImageFile
+          ? { id: selectedProduct.id, name: selectedProduct.name, file: productImageFile, dimensions: selectedProduct.dimensions, isCutout: selectedProduct.isCutout }
+          : null,
+        productRotation,
+        productScale,
+      }).catch(err => console.error('Could not save the session:', err));
+    }, SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isSessionLoaded, history, historyIndex, selectedProduct, productImageFile, productRotation, productScale]);
+
+  const handleProductImageUpload = useCallback((file: File) => {
+    selectProductFile(file, { id: Date.now(), name: truncateText(file.name, PROMPT_TEXT_LIMITS.productName) });
+  }, [selectProductFile]);
+
+  const handleLibrarySelect = useCallback((product: Product) => {
+    const stored = library.find(p => p.id === product.id);
+    if (stored) {
+      selectProductFile(toProductFile(stored), toProductDetails(stored));
+    }
+  }, [library, selectProductFile]);
+
+  // Store a library product's new cutout (or drop it) and swap it in if that product is selected
+  const applyProductCutout = useCallback(async (stored: StoredProduct, cutout: ProductCutout | null) => {
+    const changes = { cutout: cutout?.cutout, cutoutMask: cutout?.mask };
+    await updateProduct(stored.id, changes);
+    setLibrary(prev => prev.map(p => p.id === stored.id ? { ...p, ...changes } : p));
+    if (selectedProductIdRef.current === stored.id) {
+      const file = toProductFile({ ...stored, ...changes });
+      const imageUrl = URL.createObjectURL(file);
+      setProductImageFile(file);
+      setSelectedProduct(prev => prev && prev.id === stored.id ? { ...prev, imageUrl, isCutout: !!cutout } : prev);
+    }
+  }, []);
+
+  // Remove the background of a library product. The photo stays in use until the cutout is ready.
+  const cutOutLibraryProduct = useCallback(async (stored: StoredProduct) => {
+    setCutoutStatus({ productId: stored.id, error: null });
+    try {
+      await applyProductCutout(stored, await createProductCutout(stored.image));
+      setCutoutStatus(prev => prev?.productId === stored.id ? null : prev);
+    } catch (err) {
+      // Not worth interrupting the user for: the photo can still be placed as it is.
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      console.error(err);
+      setCutoutStatus(prev => prev?.productId === stored.id ? { productId: stored.id, error: errorMessage } : prev);
+    }
+  }, [applyProductCutout]);
+
+  const handleAddLibraryProduct = useCallback(async (file: File) => {
+    try {
+      const stored = await addProduct(file);
+      setLibrary(prev => [...prev, stored]);
+      selectProductFile(toProductFile(stored), toProductDetails(stored));
+      setIsAddProductModalOpen(false);
+      cutOutLibraryProduct(stored);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not save the product to your library. Details: ${errorMessage}`);
+      console.error(err);
+    }
+  }, [selectProductFile, cutOutLibraryProduct]);
+
+  const handleRenameLibraryProduct = useCallback(async (product: Product, name: string) => {
+    try {
+      await updateProduct(product.id, { name });
+      setLibrary(prev => prev.map(p => p.id === product.id ? { ...p, name } : p));
+      setSelectedProduct(prev => prev && prev.id === product.id ? { ...prev, name } : prev);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not rename the product. Details: ${errorMessage}`);
+      console.error(err);
+    }
+  }, []);
+
+  const handleProductDimensionsChange = useCallback(async (dimensions: ProductDimensions | undefined) => {
+    if (!selectedProduct) return;
+    const { id } = selectedProduct;
+    setSelectedProduct(prev => prev && prev.id === id ? { ...prev, dimensions } : prev);
+    // Products that did not come from the library (e.g. the instant start sample) only change in memory.
+    if (!library.some(p => p.id === id)) return;
+    try {
+      await updateProduct(id, { dimensions });
+      setLibrary(prev => prev.map(p => p.id === id ? { ...p, dimensions } : p));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not save the product dimensions. Details: ${errorMessage}`);
+      console.error(err);
+    }
+  }, [selectedProduct, library]);
+
+  const handleSaveRefinedCutout = useCallback(async (mask: Blob) => {
+    const stored = library.find(p => p.id === selectedProduct?.id);
+    if (!stored) return;
+    setIsSavingCutout(true);
+    try {
+      await applyProductCutout(stored, await refineProductCutout(stored.image, mask));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not save the refined cutout. Details: ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsSavingCutout(false);
+      setIsCutoutEditorOpen(false);
+    }
+  }, [library, selectedProduct, applyProductCutout]);
+
+  const handleUseOriginalPhoto = useCallback(async () => {
+    const stored = library.find(p => p.id === selectedProduct?.id);
+    if (!stored) return;
+    try {
+      await applyProductCutout(stored, null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not go back to the original photo. Details: ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsCutoutEditorOpen(false);
+    }
+  }, [library, selectedProduct, applyProductCutout]);
+
+  const handleSavePromptTemplate = useCallback(async (draft: Pick<PromptTemplate, 'id' | 'name' | PromptTemplatePart>) => {
+    try {
+      const saved = await savePromptTemplate(draft, promptTemplates);
+      setPromptTemplates(prev => [...prev, saved]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not save the prompt template. Details: ${errorMessage}`);
+      setIsPromptTemplatesOpen(false);
+      console.error(err);
+    }
+  }, [promptTemplates]);
+
+  const handleActivatePromptTemplate = useCallback(async (id: string) => {
+    setActivePromptTemplateId(id);
+    try {
+      await saveActivePromptTemplateId(id);
+    } catch (err) {
+      console.error('Could not remember the prompt template in use:', err);
+    }
+  }, []);
+
+  const handleDeletePromptTemplate = useCallback(async (id: string) => {
+    try {
+      await deletePromptTemplate(id);
+      setPromptTemplates(prev => prev.filter(t => t.id !== id));
+      if (id === activePromptTemplateId) {
+        await handleActivatePromptTemplate(DEFAULT_PROMPT_TEMPLATE.id);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not delete the prompt template. Details: ${errorMessage}`);
+      setIsPromptTemplatesOpen(false);
+      console.error(err);
+    }
+  }, [activePromptTemplateId, handleActivatePromptTemplate]);
+
+  const handleDeleteLibraryProduct = useCallback(async (product: Product) => {
+    if (!window.confirm(`Remove "${product.name}" from your product library?`)) {
+      return;
+    }
+    try {
+      await deleteProduct(product.id);
+      setLibrary(prev => prev.filter(p => p.id !== product.id));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not delete the product. Details: ${errorMessage}`);
+      console.error(err);
+    }
+  }, []);
+
   const handleSceneUpload = useCallback((file: File) => {
     setHistory([{
+        parentIndex: null,
         sceneFile: file,
-        persistedOrbPosition: null,
+        alternateSceneFiles: [],
+        persistedOrbPositions: [],
         debugImageUrl: null,
         debugPrompt: null,
         productRotation: 0,
+        productScale: 1,
+        placements: [],
     }]);
     setHistoryIndex(0);
+    setBranchTipIndex(0);
+    setPendingPlacements([]);
+    setSceneMask(null);
+    setRemovalSelection(null);
   }, []);
 
   const handleInstantStart = useCallback(async () => {
@@ -174,81 +646,428 @@ const App: React.FC = () => {
     }
   }, [handleProductImageUpload, handleSceneUpload]);
 
-  const handleProductDrop = useCallback(async (position: {x: number, y: number}, relativePosition: { xPercent: number; yPercent: number; }) => {
-    if (!productImageFile || !sceneImage || !selectedProduct) {
-      setError('An unexpected error occurred. Please try again.');
-      return;
-    }
-    setLoadingOrbPosition(position);
+  // Runs one generation: tracks cancellation and progress, turns failures into a (retryable) error and adds the
+  // entry it produced to the history as a child of its parent. Resolves to whether it succeeded.
+  const runGeneration = useCallback(async ({ parentIndex, orbPositions, label, retry, generate }: GenerationRun): Promise<boolean> => {
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    setLoadingOrbPositions(orbPositions);
+    setGenerationProgress(null);
     setIsLoading(true);
     setError(null);
+    setFailedGeneration(null);
     try {
-      const { finalImageUrl, debugImageUrl, finalPrompt } = await generateCompositeImage(
-        productImageFile, 
-        selectedProduct.name,
-        sceneImage,
-        sceneImage.name,
-        relativePosition,
-        productRotation
-      );
-
-      const newSceneFile = dataURLtoFile(finalImageUrl, `generated-scene-${Date.now()}.jpeg`);
-      
       const newEntry: HistoryEntry = {
-          sceneFile: newSceneFile,
-          persistedOrbPosition: position,
-          debugImageUrl: debugImageUrl,
-          debugPrompt: finalPrompt,
-          productRotation: productRotation,
+        ...await generate(controller.signal, (event) => {
+          if (!controller.signal.aborted) setGenerationProgress(event);
+        }),
+        parentIndex,
       };
-      
-      const newHistory = history.slice(0, historyIndex + 1);
-      setHistory([...newHistory, newEntry]);
-      setHistoryIndex(newHistory.length);
+      // A cancelled generation never makes it into the history, even if its result arrives late.
+      if (controller.signal.aborted) return false;
 
-    } catch (err)
- {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Failed to generate the image. ${errorMessage}`);
+      // Add the new scene as a child of its parent; any other branches from it are kept. The history may have
+      // changed while the generation ran (e.g. another candidate was picked), so append to the latest one.
+      const newIndex = historyRef.current.length;
+      setHistory(prev => [...prev, newEntry]);
+      setHistoryIndex(newIndex);
+      setBranchTipIndex(newIndex);
+      setSceneMask(null);
+      setIsEditingMask(false);
+      return true;
+    } catch (err) {
+      if (controller.signal.aborted) {
+        console.log(`${label} cancelled.`);
+        return false;
+      }
+      const { title, message, canRetry } = describeGenerationFailure(err);
+      setError(message);
+      setFailedGeneration(canRetry ? { title, ...retry } : { title, placements: null });
       console.error(err);
+      return false;
     } finally {
-      setIsLoading(false);
-      setLoadingOrbPosition(null);
+      // A newer generation may have started after this one was cancelled; leave its state alone.
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+        setIsLoading(false);
+        setLoadingOrbPositions(null);
+      }
+    }
+  }, []);
+
+  const composePlacements = useCallback(async (placements: PendingPlacement[], regeneration?: Regeneration) => {
+    const parentIndex = regeneration ? regeneration.parentIndex : historyIndex;
+    const parentScene = history[parentIndex]?.sceneFile;
+    const mask = regeneration ? regeneration.mask : sceneMask ?? undefined;
+    if (!parentScene || placements.length === 0) {
+      setError('An unexpected error occurred. Please try again.');
+      return;
+    }
+    const succeeded = await runGeneration({
+      parentIndex,
+      orbPositions: placements.map(p => p.orbPosition),
+      label: 'Generation',
+      retry: { placements, regeneration },
+      generate: async (signal, onProgress) => {
+        const productPlacements: ProductPlacement[] = placements.map(p => ({
+          objectImage: p.productFile,
+          objectDescription: p.product.name,
+          dropPosition: p.relativePosition,
+          rotation: p.rotation,
+          scale: p.scale,
+          dimensions: p.product.dimensions,
+          targetBox: p.targetBox,
+          replacesObject: p.replacesObject,
+        }));
+
+        const {
+          finalImageUrl, alternateImageUrls, debugImageUrl, finalPrompt, locationDescriptions, promptTemplate, stageDurations,
+        } = await generateCompositeImage(
+          productPlacements,
+          parentScene,
+          parentScene.name,
+          {
+            mask,
+            candidateCount,
+            promptTemplate: regeneration?.promptTemplate ?? activePromptTemplate,
+            locationDescriptions: regeneration?.locationDescriptions,
+            prompt: regeneration?.prompt,
+            signal,
+            onProgress,
+          }
+        );
+
+        // Generated scenes are lossless PNGs, so the next placement starts from full quality.
+        const timestamp = Date.now();
+        return {
+            sceneFile: dataURLtoFile(finalImageUrl, `generated-scene-${timestamp}.png`),
+            alternateSceneFiles: alternateImageUrls.map((url, index) =>
+                dataURLtoFile(url, `generated-scene-${timestamp}-alt-${index + 1}.png`)),
+            persistedOrbPositions: placements.map(p => p.orbPosition),
+            debugImageUrl: debugImageUrl,
+            debugPrompt: finalPrompt,
+            promptTemplate,
+            maskFile: mask,
+            productRotation: placements[placements.length - 1].rotation,
+            productScale: placements[placements.length - 1].scale,
+            placements: placements.map((p, i) => ({
+                productName: p.product.name,
+                relativePosition: p.relativePosition,
+                rotation: p.rotation,
+                scale: p.scale,
+                targetBox: p.targetBox,
+                replacesObject: p.replacesObject,
+                locationDescription: locationDescriptions[i],
+                productFile: p.productFile,
+                dimensions: p.product.dimensions,
+            })),
+            stageDurations,
+        };
+      },
+    });
+    if (succeeded) setPendingPlacements([]);
+  }, [sceneMask, candidateCount, activePromptTemplate, history, historyIndex, runGeneration]);
+
+  // Regenerate the current entry from its parent scene with the corrections made in the Debug view.
+  // The result becomes a new sibling of the entry, so the original stays in the history.
+  const handleRegenerateEntry = useCallback((edits: RegenerationEdits) => {
+    const entry = history[historyIndex];
+    if (!entry || entry.parentIndex === null || !entry.placements.every(p => p.productFile)) return;
+    const placements: PendingPlacement[] = entry.placements.map((record, i) => ({
+      id: Date.now() + i,
+      // Only the name and dimensions of the product matter when composing.
+      product: { id: -1, name: record.productName, imageUrl: '', dimensions: record.dimensions },
+      productFile: record.productFile!,
+      orbPosition: entry.persistedOrbPositions[i] ?? { x: 0, y: 0 },
+      relativePosition: record.relativePosition,
+      rotation: edits.rotations[i],
+      scale: record.scale,
+      targetBox: record.targetBox,
+      replacesObject: record.replacesObject,
+    }));
+    // Stay with the template version the entry was made with, as long as it still exists.
+    const promptTemplate = promptTemplates.find(t =>
+      t.id === entry.promptTemplate?.id && t.version === entry.promptTemplate?.version) ?? activePromptTemplate;
+    setIsDebugModalOpen(false);
+    composePlacements(placements, {
+      parentIndex: entry.parentIndex,
+      locationDescriptions: edits.locationDescriptions,
+      prompt: edits.prompt ?? undefined,
+      mask: entry.maskFile,
+      promptTemplate,
+    });
+  }, [history, historyIndex, promptTemplates, activePromptTemplate, composePlacements]);
+
+  // Apply a typed follow-up edit to the current scene. The products placed so far are sent along so the
+  // model keeps them intact; the result becomes a child of the current entry, with the instruction recorded.
+  const editScene = useCallback(async (instruction: string) => {
+    const parentIndex = historyIndex;
+    const parent = history[parentIndex];
+    if (!parent || !instruction.trim()) {
+      setError('An unexpected error occurred. Please try again.');
+      return;
+    }
+    const mask = sceneMask ?? undefined;
+    const succeeded = await runGeneration({
+      parentIndex,
+      orbPositions: [],
+      label: 'Follow-up edit',
+      retry: { placements: null, instruction },
+      generate: async (signal, onProgress) => {
+        // Older entries did not keep their product images; those products are described by the scene alone.
+        const referenceProducts: ReferenceProduct[] = getScenePlacements(history, parentIndex)
+          .filter(placement => placement.productFile)
+          .map(placement => ({ objectImage: placement.productFile!, objectDescription: placement.productName }));
+
+        const { finalImageUrl, alternateImageUrls, debugImageUrl, finalPrompt, promptTemplate, stageDurations } = await editCompositeImage(
+          instruction,
+          referenceProducts,
+          parent.sceneFile,
+          { mask, candidateCount, promptTemplate: activePromptTemplate, signal, onProgress }
+        );
+
+        const timestamp = Date.now();
+        return {
+            sceneFile: dataURLtoFile(finalImageUrl, `edited-scene-${timestamp}.png`),
+            alternateSceneFiles: alternateImageUrls.map((url, index) =>
+                dataURLtoFile(url, `edited-scene-${timestamp}-alt-${index + 1}.png`)),
+            persistedOrbPositions: [],
+            debugImageUrl,
+            debugPrompt: finalPrompt,
+            promptTemplate,
+            maskFile: mask,
+            productRotation: parent.productRotation,
+            productScale: parent.productScale,
+            placements: [],
+            instruction: instruction.trim(),
+            stageDurations,
+        };
+      },
+    });
+    if (succeeded) setFollowUpInstruction('');
+  }, [sceneMask, candidateCount, activePromptTemplate, history, historyIndex, runGeneration]);
+
+  // Take the object the user clicked or brushed over out of the current scene. The result becomes a child of
+  // the current entry, with the marked spot and the model's description of the object recorded.
+  const removeSelectedObject = useCallback(async (selection: File) => {
+    const parentIndex = historyIndex;
+    const parent = history[parentIndex];
+    if (!parent) {
+      setError('An unexpected error occurred. Please try again.');
+      return;
+    }
+    const mask = sceneMask ?? undefined;
+    const succeeded = await runGeneration({
+      parentIndex,
+      orbPositions: [],
+      label: 'Object removal',
+      retry: { placements: null, removalSelection: selection },
+      generate: async (signal, onProgress) => {
+        const { finalImageUrl, alternateImageUrls, debugImageUrl, finalPrompt, promptTemplate, stageDurations, removedObject } = await removeObject(
+          selection,
+          parent.sceneFile,
+          { mask, candidateCount, promptTemplate: activePromptTemplate, signal, onProgress }
+        );
+
+        const timestamp = Date.now();
+        return {
+            sceneFile: dataURLtoFile(finalImageUrl, `cleared-scene-${timestamp}.png`),
+            alternateSceneFiles: alternateImageUrls.map((url, index) =>
+                dataURLtoFile(url, `cleared-scene-${timestamp}-alt-${index + 1}.png`)),
+            persistedOrbPositions: [],
+            debugImageUrl,
+            debugPrompt: finalPrompt,
+            promptTemplate,
+            maskFile: mask,
+            productRotation: parent.productRotation,
+            productScale: parent.productScale,
+            placements: [],
+            removedObject,
+            stageDurations,
+        };
+      },
+    });
+    if (succeeded) {
+      setRemovalSelection(null);
+      setIsSelectingObject(false);
+    }
+  }, [sceneMask, candidateCount, activePromptTemplate, history, historyIndex, runGeneration]);
+
+  // Abort the generation in flight and hand the scene back as it was before the drop.
+  // Staged placements and the mask are kept so the generation can be retried.
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    setIsLoading(false);
+    setLoadingOrbPositions(null);
+  }, []);
+
+  // Swap one of the current entry's alternates in as its scene; the previous scene becomes an alternate.
+  const handleSelectCandidate = useCallback((index: number) => {
+    const entry = history[historyIndex];
+    if (!entry || index < 1 || index > entry.alternateSceneFiles.length) return;
+    const alternateSceneFiles = [...entry.alternateSceneFiles];
+    const [chosen] = alternateSceneFiles.splice(index - 1, 1, entry.sceneFile);
+    const newHistory = [...history];
+    newHistory[historyIndex] = { ...entry, sceneFile: chosen, alternateSceneFiles };
+    setHistory(newHistory);
+  }, [history, historyIndex]);
+
+  const placeProduct = useCallback(async (placement: Omit<PendingPlacement, 'id' | 'product' | 'productFile' | 'rotation' | 'scale'>) => {
+    if (!productImageFile || !sceneImage || !selectedProduct) {
+      setError('An unexpected error occurred. Please try again.');
+      return;
+    }
+    const pendingPlacement: PendingPlacement = {
+      ...placement,
+      id: Date.now(),
+      product: selectedProduct,
+      productFile: productImageFile,
+      rotation: productRotation,
+      scale: productScale,
+    };
+    if (isStaging) {
+      setPendingPlacements(prev => [...prev, pendingPlacement]);
+      return;
     }
-  }, [productImageFile, sceneImage, selectedProduct, history, historyIndex, productRotation]);
+    await composePlacements([pendingPlacement]);
+  }, [productImageFile, sceneImage, selectedProduct, productRotation, productScale, isStaging, composePlacements]);
+
+  const handleProductDrop = useCallback(async (position: {x: number, y: number}, relativePosition: { xPercent: number; yPercent: number; }) => {
+    await placeProduct({ orbPosition: position, relativePosition, replacesObject: placementMode === 'replace' || undefined });
+  }, [placeProduct, placementMode]);
+
+  const handleProductBoxDrop = useCallback(async (box: { x: number; y: number; width: number; height: number }, relativeBox: PlacementBox) => {
+    await placeProduct({
+      orbPosition: { x: box.x + box.width / 2, y: box.y + box.height / 2 },
+      relativePosition: {
+        xPercent: relativeBox.xPercent + relativeBox.widthPercent / 2,
+        yPercent: relativeBox.yPercent + relativeBox.heightPercent / 2,
+      },
+      orbBox: box,
+      targetBox: relativeBox,
+    });
+  }, [placeProduct]);
+
+  const handleRemovePendingPlacement = useCallback((id: number) => {
+    setPendingPlacements(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  const handleToggleStaging = useCallback(() => {
+    setIsStaging(prev => !prev);
+  }, []);
 
 
   const handleReset = useCallback(() => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
     setSelectedProduct(null);
     setProductImageFile(null);
     setHistory([]);
     setHistoryIndex(-1);
+    setBranchTipIndex(-1);
     setError(null);
+    setFailedGeneration(null);
     setIsLoading(false);
     setProductRotation(0);
+    setProductScale(1);
+    setPendingPlacements([]);
+    setSceneMask(null);
+    setIsEditingMask(false);
+    setRemovalSelection(null);
+    setIsSelectingObject(false);
+    setIsComparing(false);
+    setComparisonIndex(null);
   }, []);
 
+  const handleExportProject = useCallback(async () => {
+    try {
+      const blob = await exportProject({
+        history,
+        historyIndex,
+        product: selectedProduct && productImageFile
+          ? { id: selectedProduct.id, name: selectedProduct.name, file: productImageFile, dimensions: selectedProduct.dimensions, isCutout: selectedProduct.isCutout }
+          : null,
+        productRotation,
+        productScale,
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `home-canvas-project-${Date.now()}${PROJECT_FILE_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not export the project. Details: ${errorMessage}`);
+      console.error(err);
+    }
+  }, [history, historyIndex, selectedProduct, productImageFile, productRotation, productScale]);
+
+  const handleImportProject = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow importing the same file again later
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      applySavedState(await importProject(file));
+      setRestoredSessionAt(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not import the project. Details: ${errorMessage}`);
+      console.error(err);
+    }
+  }, [applySavedState]);
+
+  const handleStartFresh = useCallback(() => {
+    clearSession().catch(err => console.error('Could not clear the saved session:', err));
+    handleReset();
+    setRestoredSessionAt(null);
+  }, [handleReset]);
+
   const handleChangeProduct = useCallback(() => {
     setSelectedProduct(null);
     setProductImageFile(null);
     setProductRotation(0);
+    setProductScale(1);
   }, []);
   
   const handleChangeScene = useCallback(() => {
     setHistory([]);
     setHistoryIndex(-1);
+    setBranchTipIndex(-1);
     setProductRotation(0);
+    setProductScale(1);
+    setPendingPlacements([]);
+    setSceneMask(null);
+    setIsEditingMask(false);
+    setRemovalSelection(null);
+    setIsSelectingObject(false);
+    setIsComparing(false);
+    setComparisonIndex(null);
   }, []);
 
+  const redoTargetIndex = historyIndex >= 0 ? getRedoTarget(history, historyIndex, branchTipIndex) : null;
+
   const handleUndo = () => {
-    if (historyIndex > 0) {
-      setHistoryIndex(historyIndex - 1);
+    const parentIndex = currentHistoryEntry?.parentIndex;
+    if (parentIndex !== null && parentIndex !== undefined) {
+      setHistoryIndex(parentIndex);
     }
   };
 
   const handleRedo = () => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(historyIndex + 1);
+    if (redoTargetIndex !== null) {
+      setHistoryIndex(redoTargetIndex);
+    }
+  };
+
+  // Jump to any scene in the tree. Leaving the active branch makes the newest branch below the target active.
+  const handleSelectHistoryEntry = (index: number) => {
+    setHistoryIndex(index);
+    if (!isAncestor(history, index, branchTipIndex)) {
+      setBranchTipIndex(findBranchTip(history, index));
     }
   };
   
@@ -261,19 +1080,6 @@ const App: React.FC = () => {
     };
   }, [productImageUrl]);
 
-  useEffect(() => {
-    let interval: ReturnType<typeof setInterval> | undefined;
-    if (isLoading) {
-        setLoadingMessageIndex(0); // Reset on start
-        interval = setInterval(() => {
-            setLoadingMessageIndex(prevIndex => (prevIndex + 1) % loadingMessages.length);
-        }, 3000);
-    }
-    return () => {
-        if (interval) clearInterval(interval);
-    };
-  }, [isLoading]);
-
   const handleTouchStart = (e: React.TouchEvent) => {
     if (!selectedProduct) return;
     // Prevent page scroll
@@ -363,21 +1169,75 @@ const App: React.FC = () => {
     };
   }, [isTouchDragging, handleProductDrop]);
   
-  const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  const canUndo = currentHistoryEntry?.parentIndex !== null && currentHistoryEntry?.parentIndex !== undefined;
+  const canRedo = redoTargetIndex !== null;
+
+  // Helper to name a history entry in the comparison picker
+  const describeHistoryEntry = (index: number): string => {
+    if (index === 0) return 'Original scene';
+    const { instruction, removedObject } = history[index];
+    if (instruction !== undefined) return `Step ${index}: "${instruction}"`;
+    if (removedObject) return `Step ${index}: object removed`;
+    const productNames = history[index].placements.map(placement => placement.productName).join(', ');
+    return productNames ? `Step ${index}: ${productNames}` : `Step ${index}`;
+  };
 
   const renderContent = () => {
     if (error) {
        return (
            <div className="text-center animate-fade-in bg-red-50 border border-red-200 p-8 rounded-lg max-w-2xl mx-auto">
-            <h2 className="text-3xl font-extrabold mb-4 text-red-800">An Error Occurred</h2>
+            <h2 className="text-3xl font-extrabold mb-4 text-red-800">{failedGeneration?.title ?? 'An Error Occurred'}</h2>
             <p className="text-lg text-red-700 mb-6">{error}</p>
-            <button
-                onClick={handleReset}
-                className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors"
-              >
-                Try Again
-            </button>
+            {failedGeneration ? (
+              <div className="flex flex-wrap items-center justify-center gap-4">
+                {failedGeneration.instruction !== undefined && (
+                  <button
+                      onClick={() => editScene(failedGeneration.instruction!)}
+                      className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors"
+                    >
+                      Retry
+                  </button>
+                )}
+                {failedGeneration.removalSelection && (
+                  <button
+                      onClick={() => removeSelectedObject(failedGeneration.removalSelection!)}
+                      className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors"
+                    >
+                      Retry
+                  </button>
+                )}
+                {failedGeneration.placements && (
+                  <button
+                      onClick={() => composePlacements(failedGeneration.placements!, failedGeneration.regeneration)}
+                      className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors"
+                    >
+                      Retry
+                  </button>
+                )}
+                <button
+                    onClick={() => {
+                      setError(null);
+                      setFailedGeneration(null);
+                    }}
+                    className="bg-white hover:bg-red-100 text-red-700 border border-red-300 font-bold py-3 px-8 rounded-lg text-lg transition-colors"
+                  >
+                    Back to Scene
+                </button>
+                <button
+                    onClick={handleReset}
+                    className="text-red-700 hover:text-red-900 font-semibold"
+                  >
+                    Start Over
+                </button>
+              </div>
+            ) : (
+              <button
+                  onClick={handleReset}
+                  className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors"
+                >
+                  Try Again
+              </button>
+            )}
           </div>
         );
     }
@@ -386,12 +1246,15 @@ const App: React.FC = () => {
       return (
         <div className="w-full max-w-6xl mx-auto animate-fade-in">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
-            <div className="flex flex-col">
-              <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Upload Product</h2>
-              <ImageUploader 
-                id="product-uploader"
-                onFileSelect={handleProductImageUpload}
-                imageUrl={productImageUrl}
+            <div className="flex flex-col min-w-0">
+              <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Choose Product</h2>
+              <ProductSelector
+                products={libraryProducts}
+                selectedId={selectedProduct?.id}
+                onSelect={handleLibrarySelect}
+                onAddOwnProductClick={() => setIsAddProductModalOpen(true)}
+                onRename={handleRenameLibraryProduct}
+                onDelete={handleDeleteLibraryProduct}
               />
             </div>
             <div className="flex flex-col">
@@ -405,7 +1268,7 @@ const App: React.FC = () => {
           </div>
           <div className="text-center mt-10 min-h-[4rem] flex flex-col justify-center items-center">
             <p className="text-zinc-500 animate-fade-in">
-              Upload a product image and a scene image to begin.
+              Choose a product from your library and upload a scene image to begin.
             </p>
             <p className="text-zinc-500 animate-fade-in mt-2">
               Or click{' '}
@@ -415,7 +1278,14 @@ const App: React.FC = () => {
               >
                 here
               </button>
-              {' '}for an instant start.
+              {' '}for an instant start, or{' '}
+              <button
+                onClick={() => projectInputRef.current?.click()}
+                className="font-bold text-blue-600 hover:text-blue-800 underline transition-colors"
+              >
+                open a project file
+              </button>
+              .
             </p>
           </div>
         </div>
@@ -438,8 +1308,28 @@ const App: React.FC = () => {
                   onTouchStart={handleTouchStart}
                   className="cursor-move w-full max-w-xs"
               >
-                  <ObjectCard product={selectedProduct!} isSelected={true} rotation={productRotation} />
+                  <ObjectCard product={selectedProduct!} isSelected={true} rotation={productRotation} scale={productScale} />
               </div>
+              {selectedLibraryProduct && (
+                <div className="w-full max-w-xs mx-auto mt-3 px-2 text-center text-xs">
+                  {selectedCutoutStatus && !selectedCutoutStatus.error ? (
+                    <span className="text-zinc-500">Removing background…</span>
+                  ) : selectedCutoutStatus ? (
+                    <span className="text-red-600" title={selectedCutoutStatus.error ?? undefined}>
+                      Could not remove the background.{' '}
+                      <button onClick={() => cutOutLibraryProduct(selectedLibraryProduct)} className="text-blue-600 hover:text-blue-800 font-semibold transition-colors">Try again</button>
+                    </span>
+                  ) : selectedLibraryProduct.cutoutMask ? (
+                    <button onClick={() => setIsCutoutEditorOpen(true)} disabled={isLoading} className="text-blue-600 hover:text-blue-800 font-semibold transition-colors disabled:text-zinc-400">
+                      Refine cutout
+                    </button>
+                  ) : (
+                    <button onClick={() => cutOutLibraryProduct(selectedLibraryProduct)} disabled={isLoading} className="text-blue-600 hover:text-blue-800 font-semibold transition-colors disabled:text-zinc-400">
+                      Remove background
+                    </button>
+                  )}
+                </div>
+              )}
               <div className="w-full max-w-xs mx-auto mt-6 px-2">
                 <div className="flex justify-between items-center mb-2">
                   <label htmlFor="rotation-slider" className="text-sm font-semibold text-zinc-700">Rotate Product</label>
@@ -458,6 +1348,84 @@ const App: React.FC = () => {
                 />
                 <div className="text-center text-sm text-zinc-500 mt-1">{productRotation}°</div>
               </div>
+              <div className="w-full max-w-xs mx-auto mt-4 px-2">
+                <div className="flex justify-between items-center mb-2">
+                  <label htmlFor="scale-slider" className="text-sm font-semibold text-zinc-700">Scale Product</label>
+                  <button onClick={() => setProductScale(1)} className="text-xs text-blue-600 hover:text-blue-800 font-semibold transition-colors">Reset</button>
+                </div>
+                <input
+                  id="scale-slider"
+                  type="range"
+                  min="25"
+                  max="300"
+                  step="5"
+                  value={Math.round(productScale * 100)}
+                  onChange={(e) => setProductScale(parseInt(e.target.value, 10) / 100)}
+                  className="w-full h-2 bg-zinc-200 rounded-lg appearance-none cursor-pointer"
+                  aria-label="Scale product"
+                />
+                <div className="text-center text-sm text-zinc-500 mt-1">
+                  {productScale === 1 ? 'Natural size' : `${Math.round(productScale * 100)}% of natural size`}
+                </div>
+              </div>
+              <div className="w-full max-w-xs mx-auto mt-4 px-2">
+                <DimensionsEditor
+                  dimensions={selectedProduct!.dimensions}
+                  onChange={handleProductDimensionsChange}
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="w-full max-w-xs mx-auto mt-4 px-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-semibold text-zinc-700">Placement</span>
+                  <div className="flex rounded-lg border border-zinc-300 overflow-hidden text-xs font-semibold" role="group" aria-label="Placement mode">
+                    {(['point', 'box', 'replace'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setPlacementMode(mode)}
+                        disabled={isLoading}
+                        className={`px-3 py-1 transition-colors ${placementMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-zinc-600 hover:bg-zinc-100'}`}
+                        aria-pressed={placementMode === mode}
+                      >
+                        {mode === 'point' ? 'Point' : mode === 'box' ? 'Area' : 'Replace'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="w-full max-w-xs mx-auto mt-4 px-2">
+                <div className="flex justify-between items-center">
+                  <label htmlFor="candidate-count" className="text-sm font-semibold text-zinc-700">Candidates per drop</label>
+                  <select
+                    id="candidate-count"
+                    value={candidateCount}
+                    onChange={(e) => setCandidateCount(parseInt(e.target.value, 10))}
+                    disabled={isLoading}
+                    className="text-sm border border-zinc-300 rounded px-2 py-0.5 text-zinc-700"
+                  >
+                    {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(count => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="w-full max-w-xs mx-auto mt-4 px-2">
+                <label className="flex items-center justify-between cursor-pointer">
+                  <span className="text-sm font-semibold text-zinc-700">Stage several products</span>
+                  <input
+                    type="checkbox"
+                    checked={isStaging}
+                    onChange={handleToggleStaging}
+                    disabled={isLoading}
+                    className="h-4 w-4 accent-blue-600"
+                  />
+                </label>
+                {isStaging && (
+                  <p className="text-xs text-zinc-500 mt-1">
+                    Drops are collected as numbered markers. Switch products between drops, then place them all at once.
+                  </p>
+                )}
+              </div>
             </div>
             <div className="text-center mt-4">
                <div className="h-8 flex items-center justify-center">
@@ -474,6 +1442,16 @@ const App: React.FC = () => {
           <div className="md:col-span-2 flex flex-col">
             <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Scene</h2>
             <div className="flex-grow flex items-center justify-center">
+              {showComparison ? (
+                <SceneComparison
+                  beforeFile={comparisonEntry.sceneFile}
+                  afterFile={sceneImage}
+                  beforeLabel={describeHistoryEntry(comparisonTargetIndex)}
+                  afterLabel="Current"
+                  mode={comparisonMode}
+                  onModeChange={setComparisonMode}
+                />
+              ) : (
               <ImageUploader 
                   ref={sceneImgRef}
                   id="scene-uploader" 
@@ -481,13 +1459,205 @@ const App: React.FC = () => {
                   imageUrl={sceneImageUrl}
                   isDropZone={!!sceneImage && !isLoading}
                   onProductDrop={handleProductDrop}
-                  persistedOrbPosition={isLoading ? loadingOrbPosition : persistedOrbPosition}
+                  persistedOrbPositions={isLoading ? loadingOrbPositions : persistedOrbPositions}
+                  pendingMarkers={isLoading ? [] : pendingPlacements.map(p => ({ ...p.orbPosition, box: p.orbBox }))}
+                  placementMode={placementMode}
+                  onProductBoxDrop={handleProductBoxDrop}
+                  maskEditor={{
+                    isEditing: isEditingMask && !isLoading,
+                    tool: maskTool,
+                    brushSize: maskBrushSize,
+                    hasMask: !!sceneMask,
+                    onChange: setSceneMask,
+                  }}
+                  selectionBrush={{
+                    isEditing: isSelectingObject && !isLoading,
+                    tool: maskTool,
+                    brushSize: maskBrushSize,
+                    hasMask: !!removalSelection,
+                    onChange: setRemovalSelection,
+                  }}
                   showDebugButton={!!debugImageUrl && !isLoading}
                   onDebugClick={() => setIsDebugModalOpen(true)}
                   isTouchHovering={isHoveringDropZone}
                   touchOrbPosition={touchOrbPosition}
               />
+              )}
             </div>
+            {sceneImage && !isLoading && !showComparison && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (followUpInstruction.trim()) editScene(followUpInstruction);
+                }}
+                className="mt-4 flex items-center gap-2"
+              >
+                <input
+                  type="text"
+                  value={followUpInstruction}
+                  onChange={(e) => setFollowUpInstruction(e.target.value)}
+                  maxLength={PROMPT_TEXT_LIMITS.instruction}
+                  placeholder='Refine this scene, e.g. "make the lamp warmer" or "add a soft shadow"'
+                  className="flex-grow min-w-0 text-sm border border-zinc-300 rounded-lg px-3 py-2 text-zinc-800"
+                  aria-label="Follow-up edit"
+                />
+                <button
+                  type="submit"
+                  disabled={!followUpInstruction.trim()}
+                  className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-2 px-4 rounded-lg transition-colors disabled:bg-zinc-300 disabled:cursor-not-allowed"
+                >
+                  Apply
+                </button>
+              </form>
+            )}
+            {canUndo && !isLoading && (
+              <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+                <label className="flex items-center cursor-pointer font-semibold text-zinc-700">
+                  <input
+                    type="checkbox"
+                    checked={isComparing}
+                    onChange={() => setIsComparing(prev => !prev)}
+                    className="h-4 w-4 mr-2 accent-blue-600"
+                  />
+                  Compare with
+                </label>
+                <select
+                  value={comparisonTargetIndex}
+                  onChange={(e) => setComparisonIndex(parseInt(e.target.value, 10))}
+                  className="text-sm border border-zinc-300 rounded px-2 py-0.5 text-zinc-700 max-w-[16rem]"
+                  aria-label="Earlier scene to compare with"
+                >
+                  {history.map((_, index) => index !== historyIndex && (
+                    <option key={index} value={index}>{describeHistoryEntry(index)}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {sceneCandidates.length > 1 && !isLoading && (
+              <CandidatePicker candidates={sceneCandidates} onSelect={handleSelectCandidate} />
+            )}
+            {history.length > 1 && !isLoading && (
+              <HistoryTree
+                history={history}
+                currentIndex={historyIndex}
+                branchTipIndex={branchTipIndex}
+                onSelect={handleSelectHistoryEntry}
+              />
+            )}
+            {!isLoading && !showComparison && (
+              <div className="mt-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+                <label className="flex items-center cursor-pointer font-semibold text-zinc-700">
+                  <input
+                    type="checkbox"
+                    checked={isEditingMask}
+                    onChange={() => {
+                      setIsEditingMask(prev => !prev);
+                      setIsSelectingObject(false);
+                    }}
+                    className="h-4 w-4 mr-2 accent-blue-600"
+                  />
+                  Paint editable area
+                </label>
+                <label className="flex items-center cursor-pointer font-semibold text-zinc-700">
+                  <input
+                    type="checkbox"
+                    checked={isSelectingObject}
+                    onChange={() => {
+                      setIsSelectingObject(prev => !prev);
+                      setIsEditingMask(false);
+                    }}
+                    className="h-4 w-4 mr-2 accent-red-600"
+                  />
+                  Remove object
+                </label>
+                {(isEditingMask || isSelectingObject) && (
+                  <>
+                    <div className="flex rounded-lg border border-zinc-300 overflow-hidden text-xs font-semibold" role="group" aria-label="Mask tool">
+                      {(['brush', 'eraser'] as const).map(tool => (
+                        <button
+                          key={tool}
+                          onClick={() => setMaskTool(tool)}
+                          className={`px-3 py-1 transition-colors ${maskTool === tool ? 'bg-blue-600 text-white' : 'bg-white text-zinc-600 hover:bg-zinc-100'}`}
+                          aria-pressed={maskTool === tool}
+                        >
+                          {tool === 'brush' ? 'Brush' : 'Eraser'}
+                        </button>
+                      ))}
+                    </div>
+                    <input
+                      type="range"
+                      min="1"
+                      max="20"
+                      step="1"
+                      value={maskBrushSize}
+                      onChange={(e) => setMaskBrushSize(parseInt(e.target.value, 10))}
+                      className="w-28 h-2 bg-zinc-200 rounded-lg appearance-none cursor-pointer"
+                      aria-label="Brush size"
+                    />
+                  </>
+                )}
+                {sceneMask && (
+                  <button onClick={() => setSceneMask(null)} className="text-blue-600 hover:text-blue-800 font-semibold">
+                    Clear mask
+                  </button>
+                )}
+                {sceneMask && !isEditingMask && (
+                  <span className="text-zinc-500">Only the painted area will change.</span>
+                )}
+                {removalSelection && (
+                  <>
+                    <button
+                      onClick={() => removeSelectedObject(removalSelection)}
+                      className="bg-red-600 hover:bg-red-700 text-white text-xs font-bold py-1.5 px-3 rounded-lg transition-colors"
+                    >
+                      Remove marked object
+                    </button>
+                    <button onClick={() => setRemovalSelection(null)} className="text-red-600 hover:text-red-800 font-semibold">
+                      Clear selection
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+            {pendingPlacements.length > 0 && !isLoading && (
+              <div className="mt-4 bg-zinc-50 border border-zinc-200 rounded-lg p-3 animate-fade-in">
+                <ol className="flex flex-wrap gap-2 text-sm">
+                  {pendingPlacements.map((placement, index) => (
+                    <li key={placement.id} className="flex items-center bg-white border border-zinc-200 rounded-md pl-2 pr-1 py-1">
+                      <span className="font-bold text-red-600 mr-1">{index + 1}</span>
+                      <span className="text-zinc-700 truncate max-w-[10rem]">{placement.product.name}</span>
+                      {!placement.replacesObject && <span className="text-zinc-400 ml-1">{placement.rotation}°</span>}
+                      {placement.targetBox && <span className="text-zinc-400 ml-1">area</span>}
+                      {placement.replacesObject && <span className="text-zinc-400 ml-1">replaces</span>}
+                      {!placement.targetBox && !placement.replacesObject && placement.scale !== 1 && (
+                        <span className="text-zinc-400 ml-1">{Math.round(placement.scale * 100)}%</span>
+                      )}
+                      <button
+                        onClick={() => handleRemovePendingPlacement(placement.id)}
+                        className="ml-1 px-1 text-zinc-400 hover:text-zinc-800"
+                        aria-label={`Remove pending placement ${index + 1}`}
+                      >
+                        ×
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+                <div className="flex items-center justify-end space-x-4 mt-3">
+                  <button
+                    onClick={() => setPendingPlacements([])}
+                    className="text-sm text-zinc-600 hover:text-zinc-900 font-semibold"
+                  >
+                    Clear
+                  </button>
+                  <button
+                    onClick={() => composePlacements(pendingPlacements)}
+                    className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold py-2 px-4 rounded-lg transition-colors"
+                  >
+                    Place {pendingPlacements.length} {pendingPlacements.length === 1 ? 'product' : 'products'}
+                  </button>
+                </div>
+              </div>
+            )}
             <div className="text-center mt-4">
               <div className="h-8 flex items-center justify-center space-x-6">
                 {sceneImage && !isLoading && (
@@ -498,6 +1668,31 @@ const App: React.FC = () => {
                       Change Scene
                   </button>
                 )}
+                {sceneImage && !isLoading && (
+                  <button
+                      onClick={handleExportProject}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                  >
+                      Export
+                  </button>
+                )}
+                {sceneImage && !isLoading && (
+                  <button
+                      onClick={() => projectInputRef.current?.click()}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                  >
+                      Import
+                  </button>
+                )}
+                {sceneImage && !isLoading && (
+                  <button
+                      onClick={() => setIsPromptTemplatesOpen(true)}
+                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+                      title={`Prompt template in use: ${activePromptTemplate.name} (v${activePromptTemplate.version})`}
+                  >
+                      Prompts
+                  </button>
+                )}
                 {(canUndo || canRedo) && !isLoading && <div className="w-px h-4 bg-zinc-300"></div>}
                 {(canUndo || canRedo) && !isLoading && (
                   <div className="flex items-center space-x-4">
@@ -529,11 +1724,40 @@ const App: React.FC = () => {
            {isLoading ? (
              <div className="animate-fade-in">
                 <Spinner />
-                <p className="text-xl mt-4 text-zinc-600 transition-opacity duration-500">{loadingMessages[loadingMessageIndex]}</p>
+                <p className="text-xl mt-4 text-zinc-600 transition-opacity duration-500">{describeProgress(generationProgress)}</p>
+                <div
+                  className="w-64 h-1.5 bg-zinc-200 rounded-full overflow-hidden mx-auto mt-3"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(getProgressFraction(generationProgress) * 100)}
+                >
+                  <div
+                    className="h-full bg-blue-600 transition-all duration-500"
+                    style={{ width: `${getProgressFraction(generationProgress) * 100}%` }}
+                  ></div>
+                </div>
+                <button
+                  onClick={handleCancelGeneration}
+                  className="mt-4 text-sm text-zinc-600 hover:text-zinc-900 font-semibold border border-zinc-300 rounded-lg px-4 py-1.5 hover:bg-zinc-100 transition-colors"
+                >
+                  Cancel
+                </button>
              </div>
            ) : (
              <p className="text-zinc-500 animate-fade-in">
-                Drag the product onto a location in the scene, or simply click where you want it.
+                {showComparison
+                  ? 'Compare the current scene with an earlier one. Turn comparison off to keep placing products.'
+                  : isEditingMask
+                  ? 'Paint the area the model may change, then turn painting off to place the product.'
+                  : isSelectingObject
+                  ? 'Click or brush over the furniture you want gone, then remove the marked object.'
+                  : placementMode === 'box'
+                  ? 'Drag out the area the product should fill on the scene.'
+                  : placementMode === 'replace'
+                  ? 'Click the piece of furniture the product should replace, or drag the product onto it.'
+                  : 'Drag the product onto a location in the scene, or simply click where you want it.'}
+                {isStaging && !showComparison && ' Each placement is staged as a numbered marker.'}
              </p>
            )}
         </div>
@@ -543,21 +1767,74 @@ const App: React.FC = () => {
   
   return (
     <div className="min-h-screen bg-white text-zinc-800 flex items-center justify-center p-4 md:p-8">
+      <input
+        type="file"
+        ref={projectInputRef}
+        onChange={handleImportProject}
+        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+        className="hidden"
+      />
       <TouchGhost 
         imageUrl={isTouchDragging ? productImageUrl : null} 
         position={touchGhostPosition}
       />
       <div className="flex flex-col items-center gap-8 w-full">
         <Header />
+        {restoredSessionAt && (
+          <div className="w-full max-w-7xl mx-auto flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg px-4 py-2 text-sm text-blue-800 animate-fade-in">
+            <span>Restored your session from {new Date(restoredSessionAt).toLocaleString()}.</span>
+            <div className="flex items-center space-x-4 font-semibold">
+              <button onClick={handleStartFresh} className="text-blue-700 hover:text-blue-900 transition-colors">
+                Start fresh
+              </button>
+              <button onClick={() => setRestoredSessionAt(null)} className="text-zinc-500 hover:text-zinc-800 transition-colors">
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
         <main className="w-full">
           {renderContent()}
         </main>
       </div>
+      <AddProductModal
+        isOpen={isAddProductModalOpen}
+        onClose={() => setIsAddProductModalOpen(false)}
+        onFileSelect={handleAddLibraryProduct}
+      />
+      {isCutoutEditorOpen && selectedLibraryProduct?.cutoutMask && (
+        <CutoutEditor
+          productName={selectedLibraryProduct.name}
+          image={selectedLibraryProduct.image}
+          mask={selectedLibraryProduct.cutoutMask}
+          isSaving={isSavingCutout}
+          onClose={() => setIsCutoutEditorOpen(false)}
+          onSave={handleSaveRefinedCutout}
+          onUseOriginal={handleUseOriginalPhoto}
+        />
+      )}
+      {/* Keyed by entry so unsaved edits never carry over to another scene */}
       <DebugModal 
+        key={historyIndex}
         isOpen={isDebugModalOpen} 
         onClose={() => setIsDebugModalOpen(false)}
         imageUrl={debugImageUrl}
         prompt={debugPrompt}
+        stageDurations={currentHistoryEntry?.stageDurations}
+        promptTemplate={currentHistoryEntry?.promptTemplate}
+        placements={currentHistoryEntry?.placements}
+        instruction={currentHistoryEntry?.instruction}
+        removedObject={currentHistoryEntry?.removedObject}
+        onRegenerate={canRegenerate && !isLoading ? handleRegenerateEntry : undefined}
+      />
+      <PromptTemplatesModal
+        isOpen={isPromptTemplatesOpen}
+        onClose={() => setIsPromptTemplatesOpen(false)}
+        templates={promptTemplates}
+        activeTemplateId={activePromptTemplateId}
+        onActivate={handleActivatePromptTemplate}
+        onSave={handleSavePromptTemplate}
+        onDelete={handleDeletePromptTemplate}
       />
     </div>
   );
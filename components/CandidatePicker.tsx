@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+
+interface CandidatePickerProps {
+  // The scene currently shown comes first, followed by its alternates.
+  candidates: File[];
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, onSelect, disabled = false }) => {
+  const [urls, setUrls] = useState<string[]>([]);
+
+  // Create and revoke thumbnail URLs for the candidates
+  useEffect(() => {
+    const candidateUrls = candidates.map(file => URL.createObjectURL(file));
+    setUrls(candidateUrls);
+    return () => candidateUrls.forEach(url => URL.revokeObjectURL(url));
+  }, [candidates]);
+
+  return (
+    <div className="mt-4 animate-fade-in">
+      <p className="text-sm font-semibold text-zinc-700 mb-2">Candidates — pick the one you like best</p>
+      <div className="flex space-x-3 overflow-x-auto scrollbar-hide pb-1">
+        {urls.map((url, index) => (
+          <button
+            key={url}
+            onClick={() => onSelect(index)}
+            disabled={disabled || index === 0}
+            className={`shrink-0 w-28 aspect-video rounded-md overflow-hidden bg-zinc-100 transition-all ${
+              index === 0 ? 'ring-2 ring-blue-500 cursor-default' : 'ring-1 ring-zinc-300 hover:ring-blue-400 disabled:cursor-not-allowed'
+            }`}
+            aria-label={index === 0 ? 'Current candidate' : `Use candidate ${index + 1}`}
+            aria-pressed={index === 0}
+          >
+            <img src={url} alt={`Candidate ${index + 1}`} className="w-full h-full object-cover" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CandidatePicker;
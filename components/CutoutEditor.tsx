@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+
+interface CutoutEditorProps {
+  productName: string;
+  // The uploaded photo and the mask the current cutout was cut with (white = product).
+  image: Blob;
+  mask: Blob;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (mask: Blob) => void;
+  // Throws the cutout away and goes back to the uploaded photo.
+  onUseOriginal: () => void;
+}
+
+// How faintly the removed parts of the photo are shown, so they can still be painted back.
+const REMOVED_OPACITY = 0.25;
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+// Helper to turn a black and white mask image into a white canvas whose alpha is the mask
+const toAlphaMask = (maskImage: ImageBitmap, width: number, height: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context for the cutout mask.');
+    ctx.drawImage(maskImage, 0, 0, width, height);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    for (let i = 0; i < imageData.data.length; i += 4) {
+        imageData.data[i + 3] = imageData.data[i];
+        imageData.data[i] = 255;
+        imageData.data[i + 1] = 255;
+        imageData.data[i + 2] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+};
+
+// Helper to export the edited alpha mask as a black and white PNG again
+const exportMask = (alphaMask: HTMLCanvasElement): Promise<Blob | null> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = alphaMask.width;
+    canvas.height = alphaMask.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.resolve(null);
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(alphaMask, 0, 0);
+    return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+};
+
+// Lets the user fix an automatic cutout by painting parts of the photo back in or taking them out.
+const CutoutEditor: React.FC<CutoutEditorProps> = ({ productName, image, mask, isSaving, onClose, onSave, onUseOriginal }) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const photoRef = useRef<ImageBitmap | null>(null);
+  const alphaMaskRef = useRef<HTMLCanvasElement | null>(null);
+  const lastPointRef = useRef<{x: number, y: number} | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<'keep' | 'remove'>('keep');
+  const [brushSize, setBrushSize] = useState(4);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Helper to draw the photo with the removed parts faded out
+  const renderPreview = () => {
+    const canvas = previewRef.current;
+    const photo = photoRef.current;
+    const alphaMask = alphaMaskRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !photo || !alphaMask || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = REMOVED_OPACITY;
+    ctx.drawImage(photo, 0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = 1;
+    // Punch the kept area out of a full-strength copy and lay it on top
+    const layer = document.createElement('canvas');
+    layer.width = canvas.width;
+    layer.height = canvas.height;
+    const layerCtx = layer.getContext('2d');
+    if (!layerCtx) return;
+    layerCtx.drawImage(photo, 0, 0, canvas.width, canvas.height);
+    layerCtx.globalCompositeOperation = 'destination-in';
+    layerCtx.drawImage(alphaMask, 0, 0);
+    ctx.drawImage(layer, 0, 0);
+  };
+
+  // Decode the photo and the mask; the mask's resolution is the one the edits are made at
+  useEffect(() => {
+    let isCancelled = false;
+    Promise.all([createImageBitmap(image), createImageBitmap(mask)])
+      .then(([photo, maskImage]) => {
+        if (isCancelled) {
+          photo.close();
+          maskImage.close();
+          return;
+        }
+        photoRef.current = photo;
+        alphaMaskRef.current = toAlphaMask(maskImage, maskImage.width, maskImage.height);
+        setSize({ width: maskImage.width, height: maskImage.height });
+        maskImage.close();
+      })
+      .catch(err => {
+        console.error(err);
+        if (!isCancelled) setLoadError('The cutout could not be loaded for editing.');
+      });
+    return () => {
+      isCancelled = true;
+      photoRef.current?.close();
+      photoRef.current = null;
+      alphaMaskRef.current = null;
+    };
+  }, [image, mask]);
+
+  // Draw the first preview once the canvas has its size
+  useEffect(() => {
+    if (size) renderPreview();
+  }, [size]);
+
+  // Map a pointer to mask pixels. The canvas is letterboxed with object-contain.
+  const toMaskPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const { width, height } = size!;
+    const scale = Math.min(rect.width / width, rect.height / height);
+    const offsetX = (rect.width - width * scale) / 2;
+    const offsetY = (rect.height - height * scale) / 2;
+    return {
+        x: (event.clientX - rect.left - offsetX) / scale,
+        y: (event.clientY - rect.top - offsetY) / scale,
+    };
+  };
+
+  const drawTo = (point: {x: number, y: number}) => {
+    const ctx = alphaMaskRef.current?.getContext('2d');
+    if (!ctx || !size) return;
+    const from = lastPointRef.current ?? point;
+    ctx.globalCompositeOperation = tool === 'remove' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = (brushSize / 100) * Math.max(size.width, size.height);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+    renderPreview();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.button !== 0 || isSaving) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = null;
+    drawTo(toMaskPoint(event));
+    setHasChanges(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    drawTo(toMaskPoint(event));
+  };
+
+  const handleSave = async () => {
+    if (!alphaMaskRef.current) return;
+    const editedMask = await exportMask(alphaMaskRef.current);
+    if (editedMask) onSave(editedMask);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl p-6 md:p-8 relative transform transition-all"
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors"
+          aria-label="Close cutout editor"
+        >
+          <CloseIcon />
+        </button>
+        <h2 className="text-2xl font-extrabold mb-1 text-zinc-800 text-center">Refine Cutout</h2>
+        <p className="text-sm text-zinc-500 mb-4 text-center truncate">{productName}</p>
+
+        <div className="w-full aspect-square max-h-[60vh] bg-checkerboard border-2 border-zinc-300 rounded-lg overflow-hidden flex items-center justify-center">
+          {loadError ? (
+            <p className="text-sm text-red-600 p-4 text-center">{loadError}</p>
+          ) : size && (
+            <canvas
+              ref={previewRef}
+              width={size.width}
+              height={size.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => { lastPointRef.current = null; }}
+              onPointerCancel={() => { lastPointRef.current = null; }}
+              className="w-full h-full object-contain cursor-crosshair"
+              style={{ touchAction: 'none' }}
+              aria-label="Cutout mask"
+            />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-center gap-4 mt-4 text-sm">
+          <div className="flex rounded-lg border border-zinc-300 overflow-hidden text-xs font-semibold" role="group" aria-label="Refine tool">
+            {([['keep', 'Keep'], ['remove', 'Remove']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setTool(key)}
+                className={`px-3 py-1 transition-colors ${tool === key ? 'bg-blue-600 text-white' : 'bg-white text-zinc-600 hover:bg-zinc-100'}`}
+                aria-pressed={tool === key}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-zinc-600">
+            Brush
+            <input
+              type="range"
+              min="1"
+              max="15"
+              step="1"
+              value={brushSize}
+              onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+              className="w-24 h-2 bg-zinc-200 rounded-lg appearance-none cursor-pointer"
+              aria-label="Brush size"
+            />
+          </label>
+        </div>
+        <p className="text-xs text-zinc-500 text-center mt-2">
+          Paint with "Keep" over parts of the product that were cut away, and with "Remove" over leftover background.
+        </p>
+
+        <div className="flex justify-between items-center mt-6">
+          <button
+            onClick={onUseOriginal}
+            disabled={isSaving}
+            className="text-sm text-zinc-500 hover:text-zinc-800 font-semibold transition-colors disabled:opacity-50"
+          >
+            Use original photo
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              disabled={isSaving}
+              className="bg-zinc-100 hover:bg-zinc-200 text-zinc-700 font-semibold py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!hasChanges || isSaving}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors disabled:bg-zinc-300 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving…' : 'Save Cutout'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CutoutEditor;
@@ -3,26 +3,81 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useState } from 'react';
+import { PROMPT_TEXT_LIMITS } from '../services/compositingPrompts';
+import { PipelineStage, PlacementRecord, PromptTemplateRef, RemovalRecord, StageDurations } from './types';
+
+// What the user changed before asking for a regeneration.
+export interface RegenerationEdits {
+  // One per placement, in placement order.
+  locationDescriptions: string[];
+  rotations: number[];
+  // The prompt exactly as the user wrote it, or null to render it again from the template.
+  prompt: string | null;
+}
 
 interface DebugModalProps {
   isOpen: boolean;
   onClose: () => void;
   imageUrl: string | null;
   prompt: string | null;
+  stageDurations?: StageDurations;
+  promptTemplate?: PromptTemplateRef;
+  // The placements of the entry on display, with the location descriptions they were composed with.
+  placements?: PlacementRecord[];
+  // The follow-up edit the entry was made with, when it was not made by placing products.
+  instruction?: string;
+  // The object the entry was made by removing, with the model's description of it.
+  removedObject?: RemovalRecord;
+  // Generates the entry again from its parent scene; absent when that is not possible (e.g. older entries).
+  onRegenerate?: (edits: RegenerationEdits) => void;
 }
 
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  resizing: 'Resizing',
+  marking: 'Marking',
+  describing: 'Describing location',
+  composing: 'Composing',
+  cropping: 'Cropping',
+};
+const STAGES = Object.keys(STAGE_LABELS) as PipelineStage[];
+
 const CloseIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
     </svg>
 );
 
-const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prompt }) => {
+const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prompt, stageDurations, promptTemplate, placements = [], instruction, removedObject, onRegenerate }) => {
+  const [descriptions, setDescriptions] = useState(() => placements.map(p => p.locationDescription ?? ''));
+  const [rotations, setRotations] = useState(() => placements.map(p => p.rotation));
+  const [promptDraft, setPromptDraft] = useState(prompt ?? '');
+
   if (!isOpen || !imageUrl) {
     return null;
   }
 
+  const isPromptEdited = promptDraft !== (prompt ?? '');
+  const hasEdits = isPromptEdited
+    || descriptions.some((description, i) => description !== (placements[i].locationDescription ?? ''))
+    || rotations.some((rotation, i) => rotation !== placements[i].rotation);
+  const hasDescriptions = placements.some(p => p.locationDescription !== undefined);
+  const canRegenerate = !!onRegenerate && descriptions.every(description => description.trim()) && !!promptDraft.trim();
+
+  const resetEdits = () => {
+    setDescriptions(placements.map(p => p.locationDescription ?? ''));
+    setRotations(placements.map(p => p.rotation));
+    setPromptDraft(prompt ?? '');
+  };
+
+  const handleRegenerate = () => {
+    onRegenerate?.({
+      locationDescriptions: descriptions.map(description => description.trim()),
+      rotations,
+      prompt: isPromptEdited ? promptDraft : null,
+    });
+  };
+
   const handleModalContentClick = (e: React.MouseEvent) => {
     e.stopPropagation();
   };
@@ -53,21 +108,148 @@ const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prom
         
         <div className="flex flex-col gap-4 overflow-y-auto">
           <div>
-            <p className="text-zinc-600 mb-2">This is the image sent to the AI, with a red marker indicating the placement.</p>
+            <p className="text-zinc-600 mb-2">
+              {instruction !== undefined
+                ? 'This is the scene sent to the AI for the follow-up edit.'
+                : removedObject
+                ? 'This is the image sent to the AI, with a red marker and rectangle on the object to remove.'
+                : 'This is the image sent to the AI, with a red marker indicating the placement.'}
+            </p>
             <div className="rounded-lg overflow-hidden bg-zinc-100">
                 <img src={imageUrl} alt="Debug view of marked scene" className="w-full h-full object-contain" />
             </div>
           </div>
+
+          {instruction !== undefined && (
+            <div>
+                <h3 className="text-lg font-bold text-zinc-800 mb-2">Follow-up Edit</h3>
+                <p className="bg-zinc-50 border border-zinc-200 rounded-lg p-3 text-sm text-zinc-700">{instruction}</p>
+            </div>
+          )}
           
+          {removedObject && (
+            <div>
+                <h3 className="text-lg font-bold text-zinc-800 mb-2">Removed Object</h3>
+                <p className="bg-zinc-50 border border-zinc-200 rounded-lg p-3 text-sm text-zinc-700">{removedObject.objectDescription}</p>
+            </div>
+          )}
+
+          {stageDurations && (
+            <div>
+                <h3 className="text-lg font-bold text-zinc-800 mb-2">Timings</h3>
+                <dl className="grid grid-cols-2 sm:grid-cols-3 gap-x-6 gap-y-1 text-sm">
+                  {STAGES.map(stage => (
+                    <div key={stage} className="flex justify-between">
+                      <dt className="text-zinc-600">{STAGE_LABELS[stage]}</dt>
+                      <dd className="font-mono text-zinc-800">{((stageDurations[stage] ?? 0) / 1000).toFixed(1)}s</dd>
+                    </div>
+                  ))}
+                  <div className="flex justify-between font-semibold">
+                    <dt className="text-zinc-700">Total</dt>
+                    <dd className="font-mono text-zinc-900">
+                      {(STAGES.reduce((sum, stage) => sum + (stageDurations[stage] ?? 0), 0) / 1000).toFixed(1)}s
+                    </dd>
+                  </div>
+                </dl>
+            </div>
+          )}
+
+          {hasDescriptions && (
+            <div>
+                <h3 className="text-lg font-bold text-zinc-800 mb-2">Location Descriptions</h3>
+                <p className="text-sm text-zinc-600 mb-2">What the AI understood about each drop location, or about the object a product replaces. Correct it if it picked the wrong spot.</p>
+                <div className="space-y-3">
+                  {placements.map((placement, index) => (
+                    <div key={index} className="bg-zinc-50 border border-zinc-200 rounded-lg p-3">
+                      <div className="flex items-center justify-between gap-3 mb-2">
+                        <span className="text-sm font-semibold text-zinc-700 truncate">
+                          {placements.length > 1 ? `${index + 1}. ` : ''}{placement.productName}
+                          {placement.replacesObject && <span className="font-normal text-zinc-500"> (replaces an object)</span>}
+                        </span>
+                        {/* A replacement takes over the orientation of the object it replaces */}
+                        {!placement.replacesObject && (
+                          <label className="flex items-center gap-2 text-xs text-zinc-600 flex-shrink-0">
+                            Rotation
+                            <input
+                              type="number"
+                              min="0"
+                              max="360"
+                              value={rotations[index]}
+                              onChange={(e) => setRotations(prev => prev.map((r, i) => i === index ? Math.min(360, Math.max(0, parseInt(e.target.value, 10) || 0)) : r))}
+                              disabled={!onRegenerate}
+                              className="w-16 border border-zinc-300 rounded px-2 py-1 text-zinc-800"
+                            />
+                            °
+                          </label>
+                        )}
+                      </div>
+                      <textarea
+                        value={descriptions[index]}
+                        onChange={(e) => setDescriptions(prev => prev.map((d, i) => i === index ? e.target.value : d))}
+                        readOnly={!onRegenerate}
+                        maxLength={PROMPT_TEXT_LIMITS.description}
+                        rows={3}
+                        className="w-full text-xs text-zinc-700 border border-zinc-300 rounded-lg p-2 read-only:bg-zinc-100"
+                        aria-label={`Location description for ${placement.productName}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+            </div>
+          )}
+
           {prompt && (
             <div>
                 <h3 className="text-lg font-bold text-zinc-800 mb-2">Final Prompt to Image Model</h3>
-                <pre className="bg-zinc-100 text-zinc-700 p-4 rounded-lg text-xs whitespace-pre-wrap">
-                    <code>{prompt}</code>
-                </pre>
+                {promptTemplate && (
+                  <p className="text-sm text-zinc-600 mb-2">
+                    Rendered from the template "{promptTemplate.name}", version {promptTemplate.version}.
+                  </p>
+                )}
+                {onRegenerate ? (
+                  <>
+                    <textarea
+                      value={promptDraft}
+                      onChange={(e) => setPromptDraft(e.target.value)}
+                      maxLength={PROMPT_TEXT_LIMITS.customPrompt}
+                      rows={12}
+                      spellCheck={false}
+                      className="w-full bg-zinc-100 text-zinc-700 p-4 rounded-lg text-xs font-mono"
+                      aria-label="Final prompt"
+                    />
+                    <p className="text-xs text-zinc-500 mt-1">
+                      {isPromptEdited
+                        ? 'The edited prompt is sent exactly as written, if the compositing server allows it; the descriptions and rotations above are only recorded.'
+                        : 'Left as it is, the prompt is rendered again with the descriptions and rotations above.'}
+                    </p>
+                  </>
+                ) : (
+                  <pre className="bg-zinc-100 text-zinc-700 p-4 rounded-lg text-xs whitespace-pre-wrap">
+                      <code>{prompt}</code>
+                  </pre>
+                )}
             </div>
           )}
         </div>
+
+        {onRegenerate && (
+          <div className="flex justify-end items-center gap-3 mt-4 flex-shrink-0">
+            <button
+              onClick={resetEdits}
+              disabled={!hasEdits}
+              className="text-sm text-zinc-600 hover:text-zinc-900 font-semibold transition-colors disabled:text-zinc-400"
+            >
+              Reset
+            </button>
+            <button
+              onClick={handleRegenerate}
+              disabled={!canRegenerate}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors disabled:bg-zinc-300 disabled:cursor-not-allowed"
+            >
+              Regenerate from Parent Scene
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
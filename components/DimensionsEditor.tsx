@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { DimensionUnit, ProductDimensions } from './types';
+
+interface DimensionsEditorProps {
+  dimensions?: ProductDimensions;
+  onChange: (dimensions: ProductDimensions | undefined) => void;
+  disabled?: boolean;
+}
+
+type Side = 'width' | 'height' | 'depth';
+
+const SIDES: { key: Side; label: string }[] = [
+  { key: 'width', label: 'W' },
+  { key: 'height', label: 'H' },
+  { key: 'depth', label: 'D' },
+];
+
+const toDraft = (dimensions?: ProductDimensions): Record<Side, string> => ({
+  width: dimensions?.width?.toString() ?? '',
+  height: dimensions?.height?.toString() ?? '',
+  depth: dimensions?.depth?.toString() ?? '',
+});
+
+// Parses a side length; empty, zero or invalid input means "unknown".
+const parseSide = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const DimensionsEditor: React.FC<DimensionsEditorProps> = ({ dimensions, onChange, disabled = false }) => {
+  const [draft, setDraft] = useState(() => toDraft(dimensions));
+  const [unit, setUnit] = useState<DimensionUnit>(dimensions?.unit ?? 'cm');
+
+  // Reset the draft whenever a different product (or its saved dimensions) comes in.
+  useEffect(() => {
+    setDraft(toDraft(dimensions));
+    setUnit(dimensions?.unit ?? 'cm');
+  }, [dimensions]);
+
+  const commit = (nextDraft: Record<Side, string>, nextUnit: DimensionUnit) => {
+    const width = parseSide(nextDraft.width);
+    const height = parseSide(nextDraft.height);
+    const depth = parseSide(nextDraft.depth);
+    const next = width || height || depth ? { width, height, depth, unit: nextUnit } : undefined;
+    if (JSON.stringify(next) !== JSON.stringify(dimensions)) {
+      onChange(next);
+    }
+  };
+
+  const handleUnitChange = (nextUnit: DimensionUnit) => {
+    setUnit(nextUnit);
+    commit(draft, nextUnit);
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm font-semibold text-zinc-700">Real-world size</span>
+        <select
+          value={unit}
+          onChange={(e) => handleUnitChange(e.target.value as DimensionUnit)}
+          disabled={disabled}
+          className="text-xs border border-zinc-300 rounded px-1 py-0.5 text-zinc-700"
+          aria-label="Dimension unit"
+        >
+          <option value="cm">cm</option>
+          <option value="in">in</option>
+        </select>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {SIDES.map(({ key, label }) => (
+          <label key={key} className="flex items-center border border-zinc-300 rounded px-2 py-1 text-sm focus-within:border-blue-500">
+            <span className="text-zinc-400 font-semibold mr-1">{label}</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              inputMode="decimal"
+              value={draft[key]}
+              onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+              onBlur={() => commit(draft, unit)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commit(draft, unit);
+              }}
+              disabled={disabled}
+              className="w-full min-w-0 outline-none text-zinc-800 bg-transparent"
+              aria-label={`Product ${key} in ${unit}`}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DimensionsEditor;
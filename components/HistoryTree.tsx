@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { HistoryEntry } from './types';
+import { getChildIndices, isAncestor } from '../services/historyTree';
+
+interface HistoryTreeProps {
+  history: HistoryEntry[];
+  currentIndex: number;
+  // Last entry of the branch undo/redo currently moves along.
+  branchTipIndex: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+// Draws each branch as a row of thumbnails; a scene with several follow-ups starts one row per branch.
+const HistoryTree: React.FC<HistoryTreeProps> = ({ history, currentIndex, branchTipIndex, onSelect, disabled = false }) => {
+  const [urls, setUrls] = useState<string[]>([]);
+
+  // Create and revoke thumbnail URLs for every scene in the tree
+  useEffect(() => {
+    const sceneUrls = history.map(entry => URL.createObjectURL(entry.sceneFile));
+    setUrls(sceneUrls);
+    return () => sceneUrls.forEach(url => URL.revokeObjectURL(url));
+  }, [history]);
+
+  const renderNode = (index: number): React.ReactNode => {
+    const children = getChildIndices(history, index);
+    const isCurrent = index === currentIndex;
+    const isOnActiveBranch = branchTipIndex >= 0 && isAncestor(history, index, branchTipIndex);
+    const label = index === 0 ? 'Original scene' : `Step ${index}`;
+
+    return (
+      <div key={index} className="flex items-start">
+        <button
+          onClick={() => onSelect(index)}
+          disabled={disabled || isCurrent}
+          className={`shrink-0 w-20 aspect-video rounded-md overflow-hidden bg-zinc-100 transition-all ${
+            isCurrent ? 'ring-2 ring-blue-600 cursor-default'
+            : isOnActiveBranch ? 'ring-2 ring-blue-200 hover:ring-blue-400 disabled:cursor-not-allowed'
+            : 'ring-1 ring-zinc-300 hover:ring-blue-400 disabled:cursor-not-allowed'
+          }`}
+          title={label}
+          aria-label={isCurrent ? `${label} (current)` : `Go to ${label}`}
+          aria-current={isCurrent ? 'step' : undefined}
+        >
+          {urls[index] && <img src={urls[index]} alt={label} className="w-full h-full object-cover" />}
+        </button>
+        {children.length > 0 && (
+          <div className="flex flex-col space-y-2">
+            {children.map(childIndex => (
+              <div key={childIndex} className="flex items-start">
+                <div className="w-4 h-px bg-zinc-300 mt-[1.4rem] shrink-0"></div>
+                {renderNode(childIndex)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4 animate-fade-in">
+      <p className="text-sm font-semibold text-zinc-700 mb-2">History</p>
+      <div className="overflow-x-auto scrollbar-hide p-1">
+        {history.map((entry, index) => (entry.parentIndex === null ? renderNode(index) : null))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryTree;
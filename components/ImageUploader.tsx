@@ -4,6 +4,31 @@
 */
 
 import React, { useCallback, useRef, useState, useImperativeHandle, forwardRef, useEffect } from 'react';
+import { PlacementBox } from './types';
+import MaskCanvas from './MaskCanvas';
+
+// A rectangle in container pixels.
+interface ScreenBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Settings for the inpainting mask painted over the scene.
+interface MaskEditorSettings {
+  isEditing: boolean;
+  tool: 'brush' | 'eraser';
+  brushSize: number;
+  hasMask: boolean;
+  onChange: (mask: File | null) => void;
+}
+
+// Marks the object to remove in red, so it is not mistaken for the editable area.
+const SELECTION_COLOR = 'rgb(239, 68, 68)';
+
+// Boxes smaller than this (in percent of the image on either side) are treated as a plain click.
+const MIN_BOX_PERCENT = 2;
 
 interface ImageUploaderProps {
   id: string;
@@ -12,7 +37,14 @@ interface ImageUploaderProps {
   imageUrl: string | null;
   isDropZone?: boolean;
   onProductDrop?: (position: {x: number, y: number}, relativePosition: { xPercent: number; yPercent: number; }) => void;
-  persistedOrbPosition?: { x: number; y: number } | null;
+  persistedOrbPositions?: { x: number; y: number }[] | null;
+  pendingMarkers?: { x: number; y: number; box?: ScreenBox }[];
+  // 'replace' places at a point like 'point'; the product then swaps out the object under it.
+  placementMode?: 'point' | 'box' | 'replace';
+  onProductBoxDrop?: (box: ScreenBox, relativeBox: PlacementBox) => void;
+  maskEditor?: MaskEditorSettings;
+  // The brush for marking an object to remove; its mask is white where the user clicked or brushed.
+  selectionBrush?: MaskEditorSettings;
   showDebugButton?: boolean;
   onDebugClick?: () => void;
   isTouchHovering?: boolean;
@@ -32,12 +64,15 @@ const WarningIcon: React.FC = () => (
 );
 
 
-const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, label, onFileSelect, imageUrl, isDropZone = false, onProductDrop, persistedOrbPosition, showDebugButton, onDebugClick, isTouchHovering = false, touchOrbPosition = null }, ref) => {
+const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, label, onFileSelect, imageUrl, isDropZone = false, onProductDrop, persistedOrbPositions, pendingMarkers = [], placementMode = 'point', onProductBoxDrop, maskEditor, selectionBrush, showDebugButton, onDebugClick, isTouchHovering = false, touchOrbPosition = null }, ref) => {
   const inputRef = useRef<HTMLInputElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [orbPosition, setOrbPosition] = useState<{x: number, y: number} | null>(null);
   const [fileTypeError, setFileTypeError] = useState<string | null>(null);
+  const [boxStart, setBoxStart] = useState<{x: number, y: number} | null>(null);
+  const [boxEnd, setBoxEnd] = useState<{x: number, y: number} | null>(null);
+  const [naturalSize, setNaturalSize] = useState<{width: number, height: number} | null>(null);
 
   // Expose the internal imgRef to the parent component via the forwarded ref
   useImperativeHandle(ref, () => imgRef.current as HTMLImageElement);
@@ -61,10 +96,10 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
     }
   };
   
-  // A shared handler for both click and drop placements.
-  const handlePlacement = useCallback((clientX: number, clientY: number, currentTarget: HTMLDivElement) => {
+  // Maps a client point to the container and to the rendered image inside it (which is letterboxed by object-contain).
+  const getImageGeometry = useCallback((clientX: number, clientY: number, currentTarget: HTMLDivElement) => {
     const img = imgRef.current;
-    if (!img || !onProductDrop) return;
+    if (!img) return null;
 
     const containerRect = currentTarget.getBoundingClientRect();
     const { naturalWidth, naturalHeight } = img;
@@ -89,6 +124,15 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
     const pointX = clientX - containerRect.left;
     const pointY = clientY - containerRect.top;
 
+    return { pointX, pointY, offsetX, offsetY, renderedWidth, renderedHeight };
+  }, []);
+
+  // A shared handler for both click and drop placements.
+  const handlePlacement = useCallback((clientX: number, clientY: number, currentTarget: HTMLDivElement) => {
+    const geometry = getImageGeometry(clientX, clientY, currentTarget);
+    if (!geometry || !onProductDrop) return;
+    const { pointX, pointY, offsetX, offsetY, renderedWidth, renderedHeight } = geometry;
+
     const imageX = pointX - offsetX;
     const imageY = pointY - offsetY;
 
@@ -102,9 +146,74 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
     const yPercent = (imageY / renderedHeight) * 100;
 
     onProductDrop({ x: pointX, y: pointY }, { xPercent, yPercent });
-  }, [onProductDrop]);
+  }, [onProductDrop, getImageGeometry]);
+
+  const isBoxMode = isDropZone && placementMode === 'box' && !!onProductBoxDrop;
+
+  // Box placement: press, drag out a rectangle over the image, release.
+  const clampToImage = (clientX: number, clientY: number, currentTarget: HTMLDivElement) => {
+    const geometry = getImageGeometry(clientX, clientY, currentTarget);
+    if (!geometry) return null;
+    const { pointX, pointY, offsetX, offsetY, renderedWidth, renderedHeight } = geometry;
+    return {
+      x: Math.min(Math.max(pointX, offsetX), offsetX + renderedWidth),
+      y: Math.min(Math.max(pointY, offsetY), offsetY + renderedHeight),
+      geometry,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!isBoxMode || event.button !== 0) return;
+    // Let overlay buttons (e.g. Debug) receive their own clicks
+    if ((event.target as HTMLElement).closest('button')) return;
+    const point = clampToImage(event.clientX, event.clientY, event.currentTarget);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setBoxStart({ x: point.x, y: point.y });
+    setBoxEnd({ x: point.x, y: point.y });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!boxStart) return;
+    const point = clampToImage(event.clientX, event.clientY, event.currentTarget);
+    if (point) setBoxEnd({ x: point.x, y: point.y });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!boxStart || !onProductBoxDrop) return;
+    const start = boxStart;
+    setBoxStart(null);
+    setBoxEnd(null);
+    const point = clampToImage(event.clientX, event.clientY, event.currentTarget);
+    if (!point) return;
+
+    const { offsetX, offsetY, renderedWidth, renderedHeight } = point.geometry;
+    const box: ScreenBox = {
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    };
+    const relativeBox: PlacementBox = {
+      xPercent: ((box.x - offsetX) / renderedWidth) * 100,
+      yPercent: ((box.y - offsetY) / renderedHeight) * 100,
+      widthPercent: (box.width / renderedWidth) * 100,
+      heightPercent: (box.height / renderedHeight) * 100,
+    };
+
+    // A press without a real drag places at a point instead
+    if (relativeBox.widthPercent < MIN_BOX_PERCENT || relativeBox.heightPercent < MIN_BOX_PERCENT) {
+      handlePlacement(event.clientX, event.clientY, event.currentTarget);
+      return;
+    }
+    onProductBoxDrop(box, relativeBox);
+  };
 
   const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (isBoxMode) {
+      // Placement is handled by the pointer handlers in box mode.
+      return;
+    }
     if (isDropZone && onProductDrop) {
       // If it's a drop zone, a click should place the product.
       handlePlacement(event.clientX, event.clientY, event.currentTarget);
@@ -174,6 +283,11 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { setBoxStart(null); setBoxEnd(null); }}
+        style={isBoxMode ? { touchAction: 'none' } : undefined}
         data-dropzone-id={id}
       >
         <input
@@ -191,7 +305,32 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
               src={imageUrl} 
               alt={label || 'Uploaded Scene'} 
               className="w-full h-full object-contain" 
+              onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
             />
+            {maskEditor && naturalSize && (
+                <MaskCanvas
+                    naturalWidth={naturalSize.width}
+                    naturalHeight={naturalSize.height}
+                    isEditing={maskEditor.isEditing}
+                    tool={maskEditor.tool}
+                    brushSize={maskEditor.brushSize}
+                    hasMask={maskEditor.hasMask}
+                    onChange={maskEditor.onChange}
+                />
+            )}
+            {selectionBrush && naturalSize && (
+                <MaskCanvas
+                    naturalWidth={naturalSize.width}
+                    naturalHeight={naturalSize.height}
+                    isEditing={selectionBrush.isEditing}
+                    tool={selectionBrush.tool}
+                    brushSize={selectionBrush.brushSize}
+                    hasMask={selectionBrush.hasMask}
+                    onChange={selectionBrush.onChange}
+                    color={SELECTION_COLOR}
+                    label="Object to remove"
+                />
+            )}
             <div 
                 className="drop-orb" 
                 style={{ 
@@ -199,18 +338,55 @@ const ImageUploader = forwardRef<HTMLImageElement, ImageUploaderProps>(({ id, la
                     top: currentOrbPosition ? currentOrbPosition.y : -9999 
                 }}
             ></div>
-            {persistedOrbPosition && (
+            {persistedOrbPositions?.map((position, index) => (
                 <div 
+                    key={`persisted-${index}`}
                     className="drop-orb" 
                     style={{ 
-                        left: persistedOrbPosition.x, 
-                        top: persistedOrbPosition.y,
+                        left: position.x, 
+                        top: position.y,
                         opacity: 1,
                         transform: 'translate(-50%, -50%) scale(1)',
                         transition: 'none', // Appear instantly without animation
                     }}
                 ></div>
+            ))}
+            {boxStart && boxEnd && (
+                <div
+                    className="absolute border-2 border-dashed border-red-500 bg-red-500/10 pointer-events-none z-10"
+                    style={{
+                        left: Math.min(boxStart.x, boxEnd.x),
+                        top: Math.min(boxStart.y, boxEnd.y),
+                        width: Math.abs(boxEnd.x - boxStart.x),
+                        height: Math.abs(boxEnd.y - boxStart.y),
+                    }}
+                ></div>
             )}
+            {pendingMarkers.map((marker, index) => marker.box && (
+                <div
+                    key={`pending-box-${index}`}
+                    className="absolute border-2 border-red-600 pointer-events-none z-10"
+                    style={{
+                        left: marker.box.x,
+                        top: marker.box.y,
+                        width: marker.box.width,
+                        height: marker.box.height,
+                    }}
+                ></div>
+            ))}
+            {pendingMarkers.map((position, index) => (
+                <div
+                    key={`pending-${index}`}
+                    className="absolute flex items-center justify-center w-7 h-7 rounded-full bg-red-600 border-2 border-white text-white text-xs font-bold shadow-lg pointer-events-none z-10"
+                    style={{
+                        left: position.x,
+                        top: position.y,
+                        transform: 'translate(-50%, -50%)',
+                    }}
+                >
+                    {index + 1}
+                </div>
+            ))}
             {showDebugButton && onDebugClick && (
                 <button
                     onClick={(e) => {
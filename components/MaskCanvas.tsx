@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+
+interface MaskCanvasProps {
+  // Intrinsic size of the scene image the mask belongs to.
+  naturalWidth: number;
+  naturalHeight: number;
+  isEditing: boolean;
+  tool: 'brush' | 'eraser';
+  // Brush diameter as a percentage of the image's longest side.
+  brushSize: number;
+  hasMask: boolean;
+  // Called after every stroke with the mask (white = may change, black = keep), or null when it is empty.
+  onChange: (mask: File | null) => void;
+  // The colour the strokes are shown in. Defaults to blue.
+  color?: string;
+  label?: string;
+}
+
+// The mask is painted at most at this resolution; it is scaled to the scene when used.
+const MAX_MASK_DIMENSION = 1024;
+const STROKE_COLOR = 'rgb(59, 130, 246)';
+
+// Helper to export the painted strokes as a black and white mask file
+const exportMask = (canvas: HTMLCanvasElement): Promise<File | null> => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.resolve(null);
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let isEmpty = true;
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] > 0) {
+            isEmpty = false;
+            break;
+        }
+    }
+    if (isEmpty) return Promise.resolve(null);
+
+    const maskCanvas = document.createElement('canvas');
+    maskCanvas.width = canvas.width;
+    maskCanvas.height = canvas.height;
+    const maskCtx = maskCanvas.getContext('2d');
+    if (!maskCtx) return Promise.resolve(null);
+    // Paint the strokes white, then put black behind them
+    maskCtx.drawImage(canvas, 0, 0);
+    maskCtx.globalCompositeOperation = 'source-in';
+    maskCtx.fillStyle = 'white';
+    maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
+    maskCtx.globalCompositeOperation = 'destination-over';
+    maskCtx.fillStyle = 'black';
+    maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
+
+    return new Promise((resolve) => {
+        maskCanvas.toBlob((blob) => {
+            resolve(blob ? new File([blob], `mask-${Date.now()}.png`, { type: 'image/png' }) : null);
+        }, 'image/png');
+    });
+};
+
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ naturalWidth, naturalHeight, isEditing, tool, brushSize, hasMask, onChange, color = STROKE_COLOR, label = 'Scene mask' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{x: number, y: number} | null>(null);
+
+  const ratio = Math.min(1, MAX_MASK_DIMENSION / Math.max(naturalWidth, naturalHeight));
+  const width = Math.round(naturalWidth * ratio);
+  const height = Math.round(naturalHeight * ratio);
+
+  // Clear the strokes when the mask is discarded from outside (e.g. after a generation)
+  useEffect(() => {
+    if (hasMask) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    ctx?.clearRect(0, 0, width, height);
+  }, [hasMask, width, height]);
+
+  // Map a pointer to canvas pixels. The canvas is letterboxed with object-contain, exactly like the scene image.
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const scale = Math.min(rect.width / width, rect.height / height);
+    const offsetX = (rect.width - width * scale) / 2;
+    const offsetY = (rect.height - height * scale) / 2;
+    return {
+        x: (event.clientX - rect.left - offsetX) / scale,
+        y: (event.clientY - rect.top - offsetY) / scale,
+    };
+  };
+
+  const drawTo = (point: {x: number, y: number}) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPointRef.current ?? point;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = color;
+    ctx.lineWidth = (brushSize / 100) * Math.max(width, height);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isEditing || event.button !== 0) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    lastPointRef.current = null;
+    drawTo(toCanvasPoint(event));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isEditing || !lastPointRef.current) return;
+    drawTo(toCanvasPoint(event));
+  };
+
+  const handlePointerUp = async () => {
+    if (!lastPointRef.current || !canvasRef.current) return;
+    lastPointRef.current = null;
+    onChange(await exportMask(canvasRef.current));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClick={(e) => isEditing && e.stopPropagation()}
+      className={`absolute inset-0 w-full h-full object-contain opacity-40 z-10 ${isEditing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      style={{ touchAction: isEditing ? 'none' : undefined }}
+      aria-label={label}
+    />
+  );
+};
+
+export default MaskCanvas;
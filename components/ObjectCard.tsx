@@ -12,9 +12,10 @@ interface ObjectCardProps {
     isSelected: boolean;
     onClick?: () => void;
     rotation?: number;
+    scale?: number;
 }
 
-const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick, rotation = 0 }) => {
+const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick, rotation = 0, scale = 1 }) => {
     const cardRef = useRef<HTMLDivElement>(null);
 
     const cardClasses = `
@@ -49,7 +50,7 @@ const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick, r
     
         const img = card.querySelector('img');
         if (img) {
-            img.style.transform = `rotate(${rotation}deg) translateZ(40px)`;
+            img.style.transform = `rotate(${rotation}deg) scale(${scale}) translateZ(40px)`;
         }
     };
 
@@ -62,7 +63,7 @@ const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick, r
     
         const img = card.querySelector('img');
         if (img) {
-            img.style.transform = `rotate(${rotation}deg) translateZ(0px)`;
+            img.style.transform = `rotate(${rotation}deg) scale(${scale}) translateZ(0px)`;
         }
     };
 
@@ -75,12 +76,13 @@ const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick, r
             onMouseLeave={handleMouseLeave}
             style={ isSelected ? { transformStyle: "preserve-3d" } : {} }
         >
-            <div className="aspect-square w-full bg-zinc-100 flex items-center justify-center p-4" style={ isSelected ? { transformStyle: "preserve-3d" } : {} }>
+            {/* A cutout sits on a checkerboard so its transparent background is visible as such */}
+            <div className={`aspect-square w-full ${product.isCutout ? 'bg-checkerboard' : 'bg-zinc-100'} flex items-center justify-center p-4`} style={ isSelected ? { transformStyle: "preserve-3d" } : {} }>
                 <img 
                     src={product.imageUrl} 
                     alt={product.name} 
                     className="w-full h-full object-contain transition-transform duration-300"
-                    style={{ transform: `rotate(${rotation}deg)` }}
+                    style={{ transform: `rotate(${rotation}deg) scale(${scale})` }}
                 />
             </div>
             <div className="p-3 text-center">
@@ -5,13 +5,17 @@
 
 import React, { useRef, useState, useCallback, useEffect } from 'react';
 // FIX: Corrected import path for Product type.
+import { PROMPT_TEXT_LIMITS } from '../services/compositingPrompts';
 import { Product } from './types';
 import ObjectCard from './ObjectCard';
 
 interface ProductSelectorProps {
     products: Product[];
+    selectedId?: number | null;
     onSelect: (product: Product) => void;
     onAddOwnProductClick: () => void;
+    onRename?: (product: Product, name: string) => void;
+    onDelete?: (product: Product) => void;
 }
 
 const ArrowLeftIcon = () => (
@@ -26,10 +30,25 @@ const ArrowRightIcon = () => (
     </svg>
 );
 
-const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onSelect, onAddOwnProductClick }) => {
+const ProductSelector: React.FC<ProductSelectorProps> = ({ products, selectedId = null, onSelect, onAddOwnProductClick, onRename, onDelete }) => {
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const [canScrollLeft, setCanScrollLeft] = useState(false);
     const [canScrollRight, setCanScrollRight] = useState(true);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const startRename = (product: Product) => {
+        setEditingId(product.id);
+        setDraftName(product.name);
+    };
+
+    const commitRename = (product: Product) => {
+        const name = draftName.trim();
+        if (name && name !== product.name) {
+            onRename?.(product, name);
+        }
+        setEditingId(null);
+    };
 
     const checkScrollButtons = useCallback(() => {
         const el = scrollContainerRef.current;
@@ -86,13 +105,48 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onSelect, o
                     ref={scrollContainerRef}
                     className="flex space-x-6 overflow-x-auto snap-x snap-mandatory py-4 scrollbar-hide"
                 >
+                    {products.length === 0 && (
+                        <p className="w-full py-8 text-zinc-500">Your product library is empty.</p>
+                    )}
                     {products.map(product => (
                          <div key={product.id} className="snap-center shrink-0 w-52 md:w-64">
                             <ObjectCard
                                 product={product}
-                                isSelected={false}
+                                isSelected={product.id === selectedId}
                                 onClick={() => onSelect(product)}
                             />
+                            {(onRename || onDelete) && (
+                                <div className="flex items-center justify-center space-x-4 mt-2 h-7 text-xs font-semibold">
+                                    {editingId === product.id ? (
+                                        <input
+                                            autoFocus
+                                            value={draftName}
+                                            onChange={(e) => setDraftName(e.target.value)}
+                                            maxLength={PROMPT_TEXT_LIMITS.productName}
+                                            onBlur={() => commitRename(product)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') commitRename(product);
+                                                if (e.key === 'Escape') setEditingId(null);
+                                            }}
+                                            className="w-full border border-zinc-300 rounded px-2 py-1 text-sm text-zinc-800"
+                                            aria-label="Product name"
+                                        />
+                                    ) : (
+                                        <>
+                                            {onRename && (
+                                                <button onClick={() => startRename(product)} className="text-blue-600 hover:text-blue-800 transition-colors">
+                                                    Rename
+                                                </button>
+                                            )}
+                                            {onDelete && (
+                                                <button onClick={() => onDelete(product)} className="text-red-600 hover:text-red-800 transition-colors">
+                                                    Delete
+                                                </button>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
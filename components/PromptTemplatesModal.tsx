@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { PROMPT_TEXT_LIMITS } from '../services/compositingPrompts';
+import {
+  DEFAULT_PROMPT_TEMPLATE, PROMPT_TEMPLATE_PARTS, PROMPT_TEMPLATE_VARIABLES, PromptTemplate, PromptTemplatePart,
+  findUnknownVariables, latestVersions,
+} from '../services/promptTemplates';
+
+type TemplateDraft = Pick<PromptTemplate, 'id' | 'name' | PromptTemplatePart>;
+
+interface PromptTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Every saved version of every template.
+  templates: PromptTemplate[];
+  activeTemplateId: string;
+  onActivate: (id: string) => void;
+  // Resolves once the draft is stored as the template's next version.
+  onSave: (draft: TemplateDraft) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const toDraft = (template: PromptTemplate): TemplateDraft => ({
+  id: template.id,
+  name: template.name,
+  describe: template.describe,
+  placement: template.placement,
+  compose: template.compose,
+  refine: template.refine,
+  identify: template.identify,
+  remove: template.remove,
+  describeReplaced: template.describeReplaced,
+  replacement: template.replacement,
+  replace: template.replace,
+});
+
+// Lists the prompt templates and edits them. Every save becomes a new version; older ones can be loaded back.
+const PromptTemplatesModal: React.FC<PromptTemplatesModalProps> = ({ isOpen, onClose, templates, activeTemplateId, onActivate, onSave, onDelete }) => {
+  const latest = useMemo(() => latestVersions(templates), [templates]);
+  const [openId, setOpenId] = useState(activeTemplateId);
+  const [openVersion, setOpenVersion] = useState<number | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [part, setPart] = useState<PromptTemplatePart>('compose');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const versions = templates.filter(t => t.id === openId).sort((a, b) => b.version - a.version);
+  const shownTemplate = versions.find(t => t.version === openVersion) ?? versions[0];
+  const isDefault = openId === DEFAULT_PROMPT_TEMPLATE.id;
+  const hasChanges = !!draft && !!shownTemplate && (
+    draft.name !== shownTemplate.name || PROMPT_TEMPLATE_PARTS.some(({ key }) => draft[key] !== shownTemplate[key]));
+  // Saving an older version unchanged restores it as the newest one.
+  const canSaveVersion = hasChanges || shownTemplate?.version !== versions[0]?.version;
+  const unknownVariables = draft ? findUnknownVariables(part, draft[part]) : [];
+
+  // Load the open template (or the chosen older version of it) into the editor
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(shownTemplate ? toDraft(shownTemplate) : null);
+  }, [isOpen, openId, openVersion, shownTemplate?.version]);
+
+  // Fall back to the default when the open template was deleted
+  useEffect(() => {
+    if (!templates.some(t => t.id === openId)) {
+      setOpenId(DEFAULT_PROMPT_TEMPLATE.id);
+      setOpenVersion(null);
+    }
+  }, [templates, openId]);
+
+  if (!isOpen || !draft) {
+    return null;
+  }
+
+  const openTemplate = (id: string) => {
+    setOpenId(id);
+    setOpenVersion(null);
+  };
+
+  const save = async (asCopy: boolean) => {
+    setIsSaving(true);
+    try {
+      const saved = asCopy ? { ...draft, id: `template-${Date.now()}`, name: `${draft.name} (copy)` } : draft;
+      await onSave(saved);
+      setOpenId(saved.id);
+      setOpenVersion(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-5xl p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors z-10"
+          aria-label="Close prompt templates"
+        >
+          <CloseIcon />
+        </button>
+        <h2 className="text-2xl font-extrabold text-zinc-800 text-center mb-4 flex-shrink-0">Prompt Templates</h2>
+
+        <div className="flex flex-col md:flex-row gap-6 overflow-y-auto">
+          <ul className="md:w-56 flex-shrink-0 space-y-1">
+            {latest.map(template => (
+              <li key={template.id}>
+                <button
+                  onClick={() => openTemplate(template.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${template.id === openId ? 'bg-blue-50 text-blue-800' : 'text-zinc-700 hover:bg-zinc-100'}`}
+                  aria-current={template.id === openId ? 'true' : undefined}
+                >
+                  <span className="font-semibold block truncate">{template.name}</span>
+                  <span className="text-xs text-zinc-500">
+                    v{template.version}{template.id === activeTemplateId ? ' · in use' : ''}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-grow min-w-0">
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                disabled={isDefault}
+                className="flex-grow min-w-0 text-sm font-semibold text-zinc-800 border border-zinc-300 rounded-lg px-3 py-1.5 disabled:bg-zinc-100"
+                aria-label="Template name"
+              />
+              <select
+                value={shownTemplate?.version}
+                onChange={(e) => setOpenVersion(parseInt(e.target.value, 10))}
+                className="text-sm border border-zinc-300 rounded-lg px-2 py-1.5 bg-white"
+                aria-label="Template version"
+              >
+                {versions.map(version => (
+                  <option key={version.version} value={version.version}>
+                    Version {version.version}{version.updatedAt ? ` · ${new Date(version.updatedAt).toLocaleDateString()}` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex rounded-lg border border-zinc-300 overflow-hidden text-xs font-semibold mb-2 w-fit" role="group" aria-label="Template part">
+              {PROMPT_TEMPLATE_PARTS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  onClick={() => setPart(key)}
+                  className={`px-3 py-1 transition-colors ${part === key ? 'bg-blue-600 text-white' : 'bg-white text-zinc-600 hover:bg-zinc-100'}`}
+                  aria-pressed={part === key}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <textarea
+              value={draft[part]}
+              onChange={(e) => setDraft({ ...draft, [part]: e.target.value })}
+              readOnly={isDefault}
+              maxLength={PROMPT_TEXT_LIMITS.templatePart}
+              spellCheck={false}
+              className="w-full h-72 font-mono text-xs text-zinc-700 border border-zinc-300 rounded-lg p-3 read-only:bg-zinc-50"
+              aria-label={`${PROMPT_TEMPLATE_PARTS.find(p => p.key === part)?.label} template`}
+            />
+            {unknownVariables.length > 0 && (
+              <p className="text-xs text-amber-700 mt-1">
+                Unknown {unknownVariables.length === 1 ? 'variable' : 'variables'}: {unknownVariables.map(name => `{{${name}}}`).join(', ')}. They will be left empty.
+              </p>
+            )}
+            <dl className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+              {PROMPT_TEMPLATE_VARIABLES[part].map(({ name, description }) => (
+                <div key={name} className="flex gap-2">
+                  <dt className="font-mono text-zinc-800 flex-shrink-0">{`{{${name}}}`}</dt>
+                  <dd className="text-zinc-500">{description}</dd>
+                </div>
+              ))}
+            </dl>
+            <p className="text-xs text-zinc-500 mt-2">
+              {'Wrap text in {{#name}}…{{/name}} to include it only when a variable is set, or in {{^name}}…{{/name}} when it is not.'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-between items-center gap-3 mt-6 flex-shrink-0">
+          <div>
+            {!isDefault && (
+              <button
+                onClick={() => window.confirm(`Delete the template "${draft.name}" and all its versions?`) && onDelete(openId)}
+                disabled={isSaving}
+                className="text-sm text-red-600 hover:text-red-800 font-semibold transition-colors disabled:opacity-50"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => save(true)}
+              disabled={isSaving}
+              className="bg-zinc-100 hover:bg-zinc-200 text-zinc-700 font-semibold py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+            >
+              Save as Copy
+            </button>
+            {!isDefault && (
+              <button
+                onClick={() => save(false)}
+                disabled={!canSaveVersion || isSaving}
+                className="bg-zinc-100 hover:bg-zinc-200 text-zinc-700 font-semibold py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save as Version {(versions[0]?.version ?? 0) + 1}
+              </button>
+            )}
+            <button
+              onClick={() => onActivate(openId)}
+              disabled={openId === activeTemplateId || hasChanges || isSaving}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors disabled:bg-zinc-300 disabled:cursor-not-allowed"
+            >
+              {openId === activeTemplateId ? 'In Use' : 'Use This Template'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesModal;
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+
+export type ComparisonMode = 'split' | 'side-by-side' | 'blink';
+
+interface SceneComparisonProps {
+  beforeFile: File;
+  afterFile: File;
+  beforeLabel: string;
+  afterLabel: string;
+  mode: ComparisonMode;
+  onModeChange: (mode: ComparisonMode) => void;
+}
+
+const MODES: { key: ComparisonMode; label: string }[] = [
+  { key: 'split', label: 'Split' },
+  { key: 'side-by-side', label: 'Side by side' },
+  { key: 'blink', label: 'Blink' },
+];
+
+// How long each image stays on screen in blink mode.
+const BLINK_INTERVAL_MS = 800;
+// How far the split handle moves per arrow key press, in percent.
+const SPLIT_KEYBOARD_STEP = 5;
+
+// Helper to keep an object URL for a file alive only as long as it is shown
+const useObjectUrl = (file: File): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return url;
+};
+
+const ImageLabel: React.FC<{ text: string; className: string }> = ({ text, className }) => (
+  <span className={`absolute top-2 bg-black bg-opacity-60 text-white text-xs font-semibold px-2 py-1 rounded-md pointer-events-none z-10 ${className}`}>
+    {text}
+  </span>
+);
+
+// Both scenes share the frame and are letterboxed by object-contain, so they line up pixel for pixel
+// as long as they have the same aspect ratio (generated scenes are cropped back to the original's).
+const SceneComparison: React.FC<SceneComparisonProps> = ({ beforeFile, afterFile, beforeLabel, afterLabel, mode, onModeChange }) => {
+  const beforeUrl = useObjectUrl(beforeFile);
+  const afterUrl = useObjectUrl(afterFile);
+  const [split, setSplit] = useState(50);
+  const [isDraggingSplit, setIsDraggingSplit] = useState(false);
+  const [showAfter, setShowAfter] = useState(true);
+
+  useEffect(() => {
+    if (mode !== 'blink') return;
+    setShowAfter(true);
+    const interval = setInterval(() => setShowAfter(prev => !prev), BLINK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [mode]);
+
+  const updateSplit = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const percent = ((event.clientX - rect.left) / rect.width) * 100;
+    setSplit(Math.max(0, Math.min(100, percent)));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setIsDraggingSplit(true);
+    updateSplit(event);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (isDraggingSplit) updateSplit(event);
+  };
+
+  const handleSplitKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'ArrowLeft') setSplit(prev => Math.max(0, prev - SPLIT_KEYBOARD_STEP));
+    if (event.key === 'ArrowRight') setSplit(prev => Math.min(100, prev + SPLIT_KEYBOARD_STEP));
+  };
+
+  const frameClasses = 'w-full aspect-video bg-zinc-100 border-2 border-zinc-300 rounded-lg relative overflow-hidden';
+
+  const renderContent = () => {
+    if (!beforeUrl || !afterUrl) {
+      return <div className={frameClasses}></div>;
+    }
+
+    if (mode === 'side-by-side') {
+      return (
+        <div className="w-full grid grid-cols-2 gap-2">
+          <div className={frameClasses}>
+            <img src={beforeUrl} alt={beforeLabel} className="w-full h-full object-contain" />
+            <ImageLabel text={beforeLabel} className="left-2" />
+          </div>
+          <div className={frameClasses}>
+            <img src={afterUrl} alt={afterLabel} className="w-full h-full object-contain" />
+            <ImageLabel text={afterLabel} className="left-2" />
+          </div>
+        </div>
+      );
+    }
+
+    if (mode === 'blink') {
+      return (
+        <div className={frameClasses}>
+          <img src={beforeUrl} alt={beforeLabel} className="absolute inset-0 w-full h-full object-contain" />
+          <img
+            src={afterUrl}
+            alt={afterLabel}
+            className={`absolute inset-0 w-full h-full object-contain ${showAfter ? 'opacity-100' : 'opacity-0'}`}
+          />
+          <ImageLabel text={showAfter ? afterLabel : beforeLabel} className="left-2" />
+        </div>
+      );
+    }
+
+    return (
+      <div
+        className={`${frameClasses} cursor-ew-resize select-none`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setIsDraggingSplit(false)}
+        onPointerCancel={() => setIsDraggingSplit(false)}
+        style={{ touchAction: 'none' }}
+      >
+        <img src={beforeUrl} alt={beforeLabel} className="absolute inset-0 w-full h-full object-contain pointer-events-none" draggable={false} />
+        <img
+          src={afterUrl}
+          alt={afterLabel}
+          className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+          style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+          draggable={false}
+        />
+        <div
+          className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_4px_rgba(0,0,0,0.6)] z-10"
+          style={{ left: `${split}%` }}
+        >
+          <div
+            className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white border-2 border-blue-600 shadow-lg flex items-center justify-center text-blue-600 text-xs font-bold focus:outline-none focus:ring-2 focus:ring-blue-400"
+            role="slider"
+            tabIndex={0}
+            aria-label="Comparison split position"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(split)}
+            onKeyDown={handleSplitKeyDown}
+          >
+            ‹›
+          </div>
+        </div>
+        <ImageLabel text={beforeLabel} className="left-2" />
+        <ImageLabel text={afterLabel} className="right-2" />
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full flex flex-col items-center">
+      <div className="flex rounded-lg border border-zinc-300 overflow-hidden text-xs font-semibold mb-3" role="group" aria-label="Comparison mode">
+        {MODES.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => onModeChange(key)}
+            className={`px-3 py-1 transition-colors ${mode === key ? 'bg-blue-600 text-white' : 'bg-white text-zinc-600 hover:bg-zinc-100'}`}
+            aria-pressed={mode === key}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {renderContent()}
+    </div>
+  );
+};
+
+export default SceneComparison;
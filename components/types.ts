@@ -3,8 +3,96 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+export type DimensionUnit = 'cm' | 'in';
+
+// The real-world size of a product. Any side may be left out when it is not known.
+export interface ProductDimensions {
+  width?: number;
+  height?: number;
+  depth?: number;
+  unit: DimensionUnit;
+}
+
 export interface Product {
   id: number;
   name: string;
   imageUrl: string;
+  dimensions?: ProductDimensions;
+  // True when `imageUrl` shows the product cut out of its photo, on a transparent background.
+  isCutout?: boolean;
+}
+
+// A rectangular target extent on the scene, relative to the image content (0-100 on both axes).
+export interface PlacementBox {
+  xPercent: number;
+  yPercent: number;
+  widthPercent: number;
+  heightPercent: number;
+}
+
+// The parameters a product was placed with, recorded for the history entry it produced.
+export interface PlacementRecord {
+  productName: string;
+  relativePosition: { xPercent: number; yPercent: number; };
+  rotation: number;
+  // Size relative to what the model would naturally choose; 1 leaves sizing to the model.
+  scale: number;
+  // The area the product should fill, when it was placed by dragging out a box.
+  targetBox?: PlacementBox;
+  // Set when the product took the place of the object at its marker instead of being added to the scene.
+  replacesObject?: boolean;
+  // What the description model said about the drop location (or the replaced object); absent in entries from older versions.
+  locationDescription?: string;
+  // The product image and size that were sent, so the placement can be generated again.
+  productFile?: File;
+  dimensions?: ProductDimensions;
+}
+
+// An object the user had the model take out of the scene, recorded for the history entry it produced.
+export interface RemovalRecord {
+  // The middle of where the user clicked or brushed, relative to the image content (0-100).
+  relativePosition: { xPercent: number; yPercent: number; };
+  // The area the user clicked or brushed over.
+  targetBox: PlacementBox;
+  // What the description model identified at the marker.
+  objectDescription: string;
+}
+
+// The steps of the compositing pipeline, in the order they run.
+export type PipelineStage = 'resizing' | 'marking' | 'describing' | 'composing' | 'cropping';
+
+// How long each pipeline stage took, in milliseconds.
+export type StageDurations = Record<PipelineStage, number>;
+
+// Identifies the prompt template version a scene was generated with.
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+  name: string;
+}
+
+// One scene state in the undo/redo history.
+export interface HistoryEntry {
+  // Index of the entry this scene was generated from; null for the original scene.
+  parentIndex: number | null;
+  sceneFile: File;
+  // Other candidates generated alongside `sceneFile`, which can be swapped in later.
+  alternateSceneFiles: File[];
+  persistedOrbPositions: { x: number; y: number }[];
+  debugImageUrl: string | null;
+  debugPrompt: string | null;
+  // The prompt template `debugPrompt` was rendered from; absent for uploaded scenes and older entries.
+  promptTemplate?: PromptTemplateRef;
+  // The inpainting mask the scene was generated with, if one was painted.
+  maskFile?: File;
+  productRotation: number;
+  productScale: number;
+  // The products placed in this step; empty for uploaded scenes, follow-up edits and removals.
+  placements: PlacementRecord[];
+  // The follow-up edit the user typed to turn the parent scene into this one; absent for placements.
+  instruction?: string;
+  // The object taken out of the parent scene to make this one; absent for other steps.
+  removedObject?: RemovalRecord;
+  // Where the time went while generating this scene; absent for uploaded scenes.
+  stageDurations?: StageDurations;
 }
@@ -10,8 +10,15 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The Gemini API key stays on the compositing server; only these settings reach the browser.
+        'process.env.COMPOSITING_PROVIDER': JSON.stringify(env.COMPOSITING_PROVIDER),
+        'process.env.COMPOSITING_API_URL': JSON.stringify(env.COMPOSITING_API_URL)
+      },
+      server: {
+        proxy: {
+          // `npm run server` listens here; forwarding keeps the app and its API on one origin during development.
+          '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+        }
       },
       resolve: {
         alias: {
@@ -0,0 +1,422 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { existsSync } from 'node:fs';
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import { DimensionUnit, ProductDimensions } from '../components/types';
+import {
+  COMPOSITING_API_ROUTES, ComposeImageResponse, DescribeLocationResponse, EditImageResponse, ErrorResponse,
+  SegmentProductResponse,
+} from '../services/compositingApi';
+import {
+  CompositingError, CompositingErrorKind, InvalidInputError, QuotaError, TransientError, toErrorPayload,
+} from '../services/compositingErrors';
+import { ComposePromptProduct, DescribePromptInput, EditPromptInput, PROMPT_TEXT_LIMITS } from '../services/compositingPrompts';
+import { ComposeProduct, CompositingProvider, PaddedBox, PlacementPoint } from '../services/compositingProvider';
+import { CutoutBackground } from '../services/imageOps';
+import { PROMPT_TEMPLATE_PARTS, PromptTemplateParts } from '../services/promptTemplates';
+import { createGeminiProvider } from './geminiProvider';
+import { createRateLimiter } from './rateLimiter';
+import { createStandInProvider } from './standInProvider';
+
+// The server reads the same .env.local the app used to, so GEMINI_API_KEY only has to be set once.
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const PORT = Number(process.env.SERVER_PORT) || 8787;
+// A compose request carries every product and the scene at 1024px, plus the mask.
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+// Requests per client per window. One generation sends a description per product and a compose per candidate.
+const RATE_LIMIT = Number(process.env.RATE_LIMIT_REQUESTS) || 30;
+const RATE_LIMIT_WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000;
+// Set when the app is served from another origin than the server.
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN;
+// Behind a reverse proxy every request comes from the proxy; the client is the last X-Forwarded-For entry instead.
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+// Lets the Debug view send a compose prompt edited by hand, which goes to the model as written. Meant for prompt work
+// in development, not for a server anyone can reach.
+const ALLOW_CUSTOM_PROMPTS = process.env.ALLOW_CUSTOM_PROMPTS === 'true';
+
+const STATUS_CODES: Record<CompositingErrorKind, number> = {
+  'quota': 429,
+  'invalid-input': 400,
+  'safety': 422,
+  'no-image': 502,
+  'transient': 503,
+};
+
+const DATA_URL_PATTERN = /^data:([\w/+.-]+);base64,([A-Za-z0-9+/=]+)$/;
+const CUTOUT_BACKGROUNDS: CutoutBackground[] = ['white', 'black'];
+const DIMENSION_UNITS: DimensionUnit[] = ['cm', 'in'];
+// More images than this in one request is not something the app ever sends.
+const MAX_IMAGES = 8;
+
+/**
+ * Picks the model backend. `MODEL_BACKEND=stand-in` forces the stand-in; without an API key it is used as well.
+ */
+const createProvider = (): CompositingProvider => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (process.env.MODEL_BACKEND === 'stand-in' || !apiKey) {
+    return createStandInProvider();
+  }
+  return createGeminiProvider(apiKey);
+};
+
+// Helper to check that a request body (or a part of it) is a plain object
+const toRecord = (value: unknown, name: string): Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidInputError(`The ${name} is missing or is not an object.`);
+  }
+  return value as Record<string, unknown>;
+};
+
+// Helper to check a list in a request body
+const toList = (value: unknown, name: string): unknown[] => {
+  if (!Array.isArray(value) || value.length > MAX_IMAGES) {
+    throw new InvalidInputError(`The ${name} are missing or there are too many of them.`);
+  }
+  return value;
+};
+
+// Helper to turn an uploaded data URL back into the File the providers expect
+const toFile = (dataUrl: unknown, name: string): File => {
+  const match = typeof dataUrl === 'string' ? dataUrl.match(DATA_URL_PATTERN) : null;
+  if (!match || !match[1].startsWith('image/')) {
+    throw new InvalidInputError(`The ${name} is missing or is not a base64 image data URL.`);
+  }
+  return new File([Buffer.from(match[2], 'base64')], name, { type: match[1] });
+};
+
+// Helper to check the text fields of a request. They all end up in a prompt, so none may be longer than its limit.
+const toText = (value: unknown, name: string, maxLength: number): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new InvalidInputError(`The ${name} is missing.`);
+  }
+  if (value.length > maxLength) {
+    throw new InvalidInputError(`The ${name} is longer than ${maxLength} characters.`);
+  }
+  return value;
+};
+
+// Helper to check the yes/no fields of a request, which may be left out
+const toFlag = (value: unknown, name: string): boolean | undefined => {
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new InvalidInputError(`The ${name} is not true or false.`);
+  }
+  return value as boolean | undefined;
+};
+
+// Helper to check the numeric fields of a request
+const toNumber = (value: unknown, name: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new InvalidInputError(`The ${name} is missing or is not a number.`);
+  }
+  return value;
+};
+
+// Helper to check counts and indexes
+const toWholeNumber = (value: unknown, name: string, min: number, max: number): number => {
+  const number = toNumber(value, name);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new InvalidInputError(`The ${name} must be a whole number from ${min} to ${max}.`);
+  }
+  return number;
+};
+
+// Helper to check a position relative to the padded square image
+const toPoint = (value: unknown, name: string): PlacementPoint => {
+  const point = toRecord(value, name);
+  return { xPercent: toNumber(point.xPercent, name), yPercent: toNumber(point.yPercent, name) };
+};
+
+// Helper to check a box, relative to the padded square image or to the image content
+const toBox = (value: unknown, name: string): PaddedBox => {
+  const box = toRecord(value, name);
+  return {
+    xPercent: toNumber(box.xPercent, name),
+    yPercent: toNumber(box.yPercent, name),
+    widthPercent: toNumber(box.widthPercent, name),
+    heightPercent: toNumber(box.heightPercent, name),
+  };
+};
+
+// Helper to check a product's real-world size
+const toDimensions = (value: unknown, name: string): ProductDimensions => {
+  const dimensions = toRecord(value, name);
+  if (!DIMENSION_UNITS.includes(dimensions.unit as DimensionUnit)) {
+    throw new InvalidInputError(`The unit of the ${name} is not valid.`);
+  }
+  const toSize = (size: unknown) => size === undefined ? undefined : toNumber(size, name);
+  return {
+    width: toSize(dimensions.width),
+    height: toSize(dimensions.height),
+    depth: toSize(dimensions.depth),
+    unit: dimensions.unit as DimensionUnit,
+  };
+};
+
+// Helper to check the plain colour a cut-out product sits on
+const toBackground = (value: unknown, name: string): CutoutBackground | undefined => {
+  if (value !== undefined && !CUTOUT_BACKGROUNDS.includes(value as CutoutBackground)) {
+    throw new InvalidInputError(`The background of ${name} is not valid.`);
+  }
+  return value as CutoutBackground | undefined;
+};
+
+// Helper to check what the compose prompt says about one product
+const toPromptProduct = (product: Record<string, unknown>, name: string): ComposePromptProduct => ({
+  name: toText(product.name, `name of ${name}`, PROMPT_TEXT_LIMITS.productName),
+  background: toBackground(product.background, name),
+  locationDescription: toText(product.locationDescription, `location description of ${name}`, PROMPT_TEXT_LIMITS.description),
+  rotation: toNumber(product.rotation, `rotation of ${name}`),
+  scale: toNumber(product.scale, `scale of ${name}`),
+  targetBox: product.targetBox === undefined ? undefined : toBox(product.targetBox, `target box of ${name}`),
+  dimensions: product.dimensions === undefined ? undefined : toDimensions(product.dimensions, `dimensions of ${name}`),
+  replacesObject: toFlag(product.replacesObject, `replacement flag of ${name}`),
+});
+
+// Helper to check one product of a compose request, keeping only the fields the providers use
+const toComposeProduct = (value: unknown, index: number): ComposeProduct => {
+  const name = `product ${index + 1}`;
+  const product = toRecord(value, name);
+  return {
+    ...toPromptProduct(product, name),
+    image: toFile(product.image, `${name} image`),
+    position: toPoint(product.position, `position of ${name}`),
+    box: product.box === undefined ? undefined : toBox(product.box, `box of ${name}`),
+  };
+};
+
+// Helper to check what a description request asks about
+const toDescribePromptInput = (value: unknown): DescribePromptInput => {
+  const input = toRecord(value, 'prompt input');
+  if (input.kind === 'identify') {
+    return { kind: 'identify', selectionBox: toBox(input.selectionBox, 'selection box') };
+  }
+  if (input.kind !== 'location') {
+    throw new InvalidInputError('The prompt input is neither a location nor an object to identify.');
+  }
+  const markerCount = toWholeNumber(input.markerCount, 'marker count', 1, MAX_IMAGES);
+  return {
+    kind: 'location',
+    markerIndex: toWholeNumber(input.markerIndex, 'marker index', 0, markerCount - 1),
+    markerCount,
+    productName: toText(input.productName, 'product name', PROMPT_TEXT_LIMITS.productName),
+    dimensions: input.dimensions === undefined ? undefined : toDimensions(input.dimensions, 'product dimensions'),
+    targetBox: input.targetBox === undefined ? undefined : toBox(input.targetBox, 'target box'),
+    replacesObject: toFlag(input.replacesObject, 'replacement flag'),
+  };
+};
+
+// Helper to check what an edit request asks for. A follow-up edit names one product per product image.
+const toEditPromptInput = (value: unknown, productImageCount: number): EditPromptInput => {
+  const input = toRecord(value, 'prompt input');
+  if (input.kind === 'remove') {
+    return {
+      kind: 'remove',
+      objectDescription: toText(input.objectDescription, 'object description', PROMPT_TEXT_LIMITS.description),
+      selectionBox: toBox(input.selectionBox, 'selection box'),
+    };
+  }
+  if (input.kind !== 'refine') {
+    throw new InvalidInputError('The prompt input is neither a follow-up edit nor a removal.');
+  }
+  const products = toList(input.products, 'reference products');
+  if (products.length !== productImageCount) {
+    throw new InvalidInputError('There must be one reference product for every product image.');
+  }
+  return {
+    kind: 'refine',
+    instruction: toText(input.instruction, 'instruction', PROMPT_TEXT_LIMITS.instruction),
+    products: products.map((value, i) => {
+      const name = `reference product ${i + 1}`;
+      const product = toRecord(value, name);
+      return {
+        name: toText(product.name, `name of ${name}`, PROMPT_TEXT_LIMITS.productName),
+        background: toBackground(product.background, name),
+      };
+    }),
+  };
+};
+
+// Helper to check the template a request is rendered from, keeping only its prompts. Templates are made and edited
+// in the app, so they come with every request; like any other text they are length-limited.
+const toPromptTemplate = (value: unknown): PromptTemplateParts => {
+  const template = toRecord(value, 'prompt template');
+  return Object.fromEntries(PROMPT_TEMPLATE_PARTS.map(({ key, label }) =>
+    [key, toText(template[key], `template's "${label}" part`, PROMPT_TEXT_LIMITS.templatePart)])) as PromptTemplateParts;
+};
+
+// Helper to check a compose prompt edited by hand in the Debug view, which only a server that allows them accepts
+const toCustomPrompt = (value: unknown): string | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!ALLOW_CUSTOM_PROMPTS) {
+    throw new InvalidInputError(
+      'This compositing server does not accept edited prompts. Undo the prompt edit in the Debug view, or edit the template instead.'
+    );
+  }
+  return toText(value, 'custom prompt', PROMPT_TEXT_LIMITS.customPrompt);
+};
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new InvalidInputError('The images are too large to send. Please use smaller images.');
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (error) {
+    throw new InvalidInputError('The request is not valid JSON.', { cause: error });
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: CompositingError, headers?: Record<string, string>) => {
+  const body: ErrorResponse = { error: toErrorPayload(error) };
+  sendJson(res, STATUS_CODES[error.kind], body, headers);
+};
+
+const getClientId = (req: IncomingMessage): string => {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwardedFor === 'string') {
+    // Clients can send their own X-Forwarded-For; only the last entry, appended by the trusted proxy, is reliable.
+    const entries = forwardedFor.split(',');
+    return entries[entries.length - 1].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const provider = createProvider();
+const rateLimiter = createRateLimiter({ limit: RATE_LIMIT, windowMs: RATE_LIMIT_WINDOW_MS });
+
+// One handler per model-backed step. Each receives the parsed body, checks it and builds the provider request from
+// the fields it allows, and a signal that aborts when the client goes away.
+const handlers: Record<string, (body: unknown, signal: AbortSignal) => Promise<unknown>> = {
+  [COMPOSITING_API_ROUTES.describe]: async (body, signal): Promise<DescribeLocationResponse> => {
+    const request = toRecord(body, 'request body');
+    return {
+      description: await provider.describeLocation({
+        markedSceneImage: toFile(request.markedSceneImage, 'marked scene image'),
+        template: toPromptTemplate(request.template),
+        promptInput: toDescribePromptInput(request.promptInput),
+        markerPosition: toPoint(request.markerPosition, 'marker position'),
+        signal,
+      }),
+    };
+  },
+
+  [COMPOSITING_API_ROUTES.compose]: async (body, signal): Promise<ComposeImageResponse> => {
+    const request = toRecord(body, 'request body');
+    const products = toList(request.products, 'products');
+    if (products.length === 0) {
+      throw new InvalidInputError('At least one product is required.');
+    }
+    return {
+      imageUrl: await provider.composeImage({
+        products: products.map(toComposeProduct),
+        sceneImage: toFile(request.sceneImage, 'scene image'),
+        mask: request.mask === undefined ? undefined : toFile(request.mask, 'mask'),
+        template: toPromptTemplate(request.template),
+        customPrompt: toCustomPrompt(request.customPrompt),
+        variant: request.variant === undefined ? 0 : toNumber(request.variant, 'variant'),
+        signal,
+      }),
+    };
+  },
+
+  [COMPOSITING_API_ROUTES.edit]: async (body, signal): Promise<EditImageResponse> => {
+    const request = toRecord(body, 'request body');
+    const productImages = toList(request.productImages ?? [], 'product images')
+      .map((image, i) => toFile(image, `product image ${i + 1}`));
+    return {
+      imageUrl: await provider.editImage({
+        productImages,
+        sceneImage: toFile(request.sceneImage, 'scene image'),
+        mask: request.mask === undefined ? undefined : toFile(request.mask, 'mask'),
+        template: toPromptTemplate(request.template),
+        promptInput: toEditPromptInput(request.promptInput, productImages.length),
+        variant: request.variant === undefined ? 0 : toNumber(request.variant, 'variant'),
+        signal,
+      }),
+    };
+  },
+
+  [COMPOSITING_API_ROUTES.segment]: async (body, signal): Promise<SegmentProductResponse> => {
+    const request = toRecord(body, 'request body');
+    return provider.segmentProduct({ image: toFile(request.image, 'product image'), signal });
+  },
+};
+
+const server = createServer(async (req, res) => {
+  const corsHeaders: Record<string, string> = ALLOWED_ORIGIN ? {
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  } : {};
+  Object.entries(corsHeaders).forEach(([name, value]) => res.setHeader(name, value));
+
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method === 'GET' && path === '/api/health') {
+    sendJson(res, 200, { backend: provider.name });
+    return;
+  }
+  const handler = handlers[path];
+  if (!handler || req.method !== 'POST') {
+    sendJson(res, 404, { error: { kind: 'invalid-input', message: `No such endpoint: ${req.method} ${path}` } });
+    return;
+  }
+
+  const clientId = getClientId(req);
+  const { allowed, retryAfterMs } = rateLimiter.take(clientId);
+  if (!allowed) {
+    const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+    console.warn(`Rate limited ${clientId} on ${path}.`);
+    sendError(res, new QuotaError(`Too many requests. Please wait ${retryAfterSeconds} seconds and try again.`),
+      { 'Retry-After': String(retryAfterSeconds) });
+    return;
+  }
+
+  // Stop the model call when the browser cancels the generation or disconnects.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const body = await readJson(req);
+    sendJson(res, 200, await handler(body, controller.signal));
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error(`${path} failed for ${clientId}:`, error);
+    sendError(res, error instanceof CompositingError
+      ? error
+      : new TransientError('The compositing server failed unexpectedly.', { cause: error }));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Compositing server listening on http://localhost:${PORT} with the "${provider.name}" model backend.`);
+  console.log(`Each client may make ${RATE_LIMIT} requests per ${RATE_LIMIT_WINDOW_MS / 1000}s.`);
+  if (ALLOW_CUSTOM_PROMPTS) {
+    console.warn('Edited prompts from the Debug view are sent to the model as written (ALLOW_CUSTOM_PROMPTS).');
+  }
+});
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimiterOptions {
+  // How many requests a client may make per window.
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // When the request was refused: how long until the client may make another one.
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Limits each client with a token bucket: a client can spend `limit` requests at once (one generation
+ * sends several), after which its allowance refills evenly over `windowMs`.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimiterOptions) => {
+  const buckets = new Map<string, Bucket>();
+  const tokensPerMs = limit / windowMs;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * tokensPerMs);
+    bucket.updatedAt = now;
+  };
+
+  // A full bucket is the same as no bucket; dropping them keeps memory bounded by the number of active clients.
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    buckets.forEach((bucket, clientId) => {
+      refill(bucket, now);
+      if (bucket.tokens >= limit) buckets.delete(clientId);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  return {
+    take: (clientId: string, now = Date.now()): RateLimitResult => {
+      const bucket = buckets.get(clientId) ?? { tokens: limit, updatedAt: now };
+      refill(bucket, now);
+      buckets.set(clientId, bucket);
+      if (bucket.tokens < 1) {
+        return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / tokensPerMs) };
+      }
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CompositingProvider } from '../services/compositingProvider';
+import { createLocalProvider } from '../services/localProvider';
+
+// A single white pixel: stretched over the whole photo, it keeps every pixel of the product.
+const FULL_MASK_URL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGP4DwABAQEAsTj2FAAAAABJRU5ErkJggg==';
+
+// Helper to turn a File back into a data URL
+const fileToDataUrl = async (file: File): Promise<string> =>
+    `data:${file.type || 'image/jpeg'};base64,${Buffer.from(await file.arrayBuffer()).toString('base64')}`;
+
+/**
+ * Creates a stand-in for the model backend so the server can be developed and tested without an API key.
+ * It gives the same canned location descriptions as the in-browser local provider, answers the compose
+ * and edit steps with the unchanged scene and treats the whole photo as the product. Nothing here needs a canvas,
+ * so it runs in Node as is.
+ */
+export const createStandInProvider = (): CompositingProvider => {
+  const { describeLocation } = createLocalProvider();
+
+  return {
+    name: 'stand-in',
+
+    describeLocation,
+
+    composeImage: async ({ sceneImage, signal }) => {
+      signal?.throwIfAborted();
+      return fileToDataUrl(sceneImage);
+    },
+
+    editImage: async ({ sceneImage, signal }) => {
+      signal?.throwIfAborted();
+      return fileToDataUrl(sceneImage);
+    },
+
+    segmentProduct: async ({ signal }) => {
+      signal?.throwIfAborted();
+      return {
+        box: { xPercent: 0, yPercent: 0, widthPercent: 100, heightPercent: 100 },
+        maskUrl: FULL_MASK_URL,
+      };
+    },
+  };
+};
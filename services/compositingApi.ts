@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CompositingErrorPayload } from './compositingErrors';
+import { DescribePromptInput, EditPromptInput } from './compositingPrompts';
+import { ComposeProduct, PlacementPoint, ProductSegmentation } from './compositingProvider';
+import { PromptTemplateParts } from './promptTemplates';
+
+// The backend's endpoints, one per model-backed step of the compositing pipeline.
+export const COMPOSITING_API_ROUTES = {
+  describe: '/api/describe',
+  compose: '/api/compose',
+  edit: '/api/edit',
+  segment: '/api/segment',
+} as const;
+
+// Images travel as data URLs in both directions. Rendered prompts do not: requests carry the template's prompts and
+// the data to fill them with, and the server renders the prompt itself. Every piece of text is length-limited
+// (see PROMPT_TEXT_LIMITS), and the model always gets the server's own system instruction first. The one exception,
+// a compose prompt edited by hand in the Debug view, is only accepted by a server started with ALLOW_CUSTOM_PROMPTS=true.
+
+export interface DescribeLocationBody {
+  markedSceneImage: string;
+  template: PromptTemplateParts;
+  promptInput: DescribePromptInput;
+  markerPosition: PlacementPoint;
+}
+
+export interface DescribeLocationResponse {
+  description: string;
+}
+
+export interface ComposeImageBody {
+  products: (Omit<ComposeProduct, 'image'> & { image: string })[];
+  sceneImage: string;
+  mask?: string;
+  template: PromptTemplateParts;
+  customPrompt?: string;
+  variant: number;
+}
+
+export interface ComposeImageResponse {
+  imageUrl: string;
+}
+
+export interface EditImageBody {
+  productImages: string[];
+  sceneImage: string;
+  mask?: string;
+  template: PromptTemplateParts;
+  promptInput: EditPromptInput;
+  variant: number;
+}
+
+export type EditImageResponse = ComposeImageResponse;
+
+export interface SegmentProductBody {
+  image: string;
+}
+
+export type SegmentProductResponse = ProductSegmentation;
+
+// Every failed request answers with this body, whatever its status code.
+export interface ErrorResponse {
+  error: CompositingErrorPayload;
+}
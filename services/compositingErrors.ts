@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type CompositingErrorKind = 'quota' | 'transient' | 'safety' | 'no-image' | 'invalid-input';
+
+/**
+ * Base class for every failure of the compositing pipeline. `isRetryable` tells whether
+ * running the same request again has a reasonable chance of succeeding.
+ */
+export class CompositingError extends Error {
+  readonly kind: CompositingErrorKind;
+  readonly isRetryable: boolean;
+
+  constructor(kind: CompositingErrorKind, message: string, isRetryable: boolean, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'CompositingError';
+    this.kind = kind;
+    this.isRetryable = isRetryable;
+  }
+}
+
+// The API key ran out of quota or is being rate limited. Retrying right away only makes it worse.
+export class QuotaError extends CompositingError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('quota', message, false, options);
+    this.name = 'QuotaError';
+  }
+}
+
+// Network drops, timeouts and server-side hiccups. These are retried automatically with backoff.
+export class TransientError extends CompositingError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('transient', message, true, options);
+    this.name = 'TransientError';
+  }
+}
+
+// The model refused the request or its output on safety grounds.
+export class SafetyBlockedError extends CompositingError {
+  // Why the prompt was blocked, e.g. "SAFETY" or "PROHIBITED_CONTENT", when the prompt itself was rejected.
+  readonly blockReason?: string;
+  // Why generation stopped, e.g. "IMAGE_SAFETY", when the output was rejected.
+  readonly finishReason?: string;
+
+  constructor(message: string, details: { blockReason?: string; finishReason?: string } = {}) {
+    super('safety', message, false);
+    this.name = 'SafetyBlockedError';
+    this.blockReason = details.blockReason;
+    this.finishReason = details.finishReason;
+  }
+}
+
+// The model answered, but without an image. Another attempt often succeeds.
+export class NoImageError extends CompositingError {
+  readonly finishReason?: string;
+
+  constructor(message: string, finishReason?: string) {
+    super('no-image', message, true);
+    this.name = 'NoImageError';
+    this.finishReason = finishReason;
+  }
+}
+
+// The request itself is wrong (missing placements, unreadable image, rejected arguments). Retrying cannot help.
+export class InvalidInputError extends CompositingError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('invalid-input', message, false, options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+// Finish reasons that mean the output was withheld for safety or policy reasons.
+const SAFETY_FINISH_REASONS = new Set(['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'RECITATION']);
+
+export const isSafetyFinishReason = (finishReason?: string): boolean =>
+    !!finishReason && SAFETY_FINISH_REASONS.has(finishReason);
+
+// Maps an HTTP status returned by a model API to the matching error type.
+export const errorFromStatus = (status: number, message: string, cause?: unknown): CompositingError => {
+    if (status === 429) {
+        return new QuotaError(message, { cause });
+    }
+    if (status >= 400 && status < 500 && status !== 408) {
+        return new InvalidInputError(message, { cause });
+    }
+    return new TransientError(message, { cause });
+};
+
+// A compositing error as the backend sends it over the wire.
+export interface CompositingErrorPayload {
+  kind: CompositingErrorKind;
+  message: string;
+  blockReason?: string;
+  finishReason?: string;
+}
+
+export const toErrorPayload = (error: CompositingError): CompositingErrorPayload => ({
+    kind: error.kind,
+    message: error.message,
+    blockReason: error instanceof SafetyBlockedError ? error.blockReason : undefined,
+    finishReason: error instanceof SafetyBlockedError || error instanceof NoImageError ? error.finishReason : undefined,
+});
+
+// Rebuilds the error the backend reported, so the client handles it exactly like a local failure.
+export const errorFromPayload = ({ kind, message, blockReason, finishReason }: CompositingErrorPayload): CompositingError => {
+    switch (kind) {
+        case 'quota':
+            return new QuotaError(message);
+        case 'safety':
+            return new SafetyBlockedError(message, { blockReason, finishReason });
+        case 'no-image':
+            return new NoImageError(message, finishReason);
+        case 'invalid-input':
+            return new InvalidInputError(message);
+        default:
+            return new TransientError(message);
+    }
+};
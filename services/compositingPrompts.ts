@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PlacementBox, ProductDimensions } from '../components/types';
+import { CutoutBackground } from './imageOps';
+import { PromptTemplateParts, renderPromptTemplate } from './promptTemplates';
+
+// The longest free text a request may carry. The server enforces them; the app keeps its inputs within them.
+export const PROMPT_TEXT_LIMITS = {
+  productName: 200,
+  // Location and object descriptions, whether the model wrote them or the user corrected them.
+  description: 2000,
+  // A typed follow-up edit.
+  instruction: 500,
+  // One prompt of a template, as edited in the app's Prompt Templates dialog.
+  templatePart: 8000,
+  // A compose prompt edited by hand in the Debug view.
+  customPrompt: 20000,
+} as const;
+
+// Helper to cut text the user did not type (file names, model answers) down to a limit, so it never fails a request
+export const truncateText = (text: string, maxLength: number): string =>
+    text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+
+// What the description model is asked about one marker: the spot a product goes, or the object to remove.
+export type DescribePromptInput =
+  | {
+      kind: 'location';
+      // Which marker this is, counting from 0, and how many markers the scene has.
+      markerIndex: number;
+      markerCount: number;
+      productName: string;
+      dimensions?: ProductDimensions;
+      // The area the product should fill, relative to the image content (0-100).
+      targetBox?: PlacementBox;
+      // Asks what the object under the marker is, because the product replaces it.
+      replacesObject?: boolean;
+    }
+  | {
+      kind: 'identify';
+      // The area the user clicked or brushed over, relative to the image content (0-100).
+      selectionBox: PlacementBox;
+    };
+
+// One product of a composition, as far as the prompt is concerned.
+export interface ComposePromptProduct {
+  name: string;
+  // The plain colour a cut-out product sits on; absent when the image is a photo with black padding.
+  background?: CutoutBackground;
+  // What the description model said about the drop location, or about the object the product replaces.
+  locationDescription: string;
+  rotation: number;
+  scale: number;
+  // The area the product should fill, relative to the image content (0-100).
+  targetBox?: PlacementBox;
+  dimensions?: ProductDimensions;
+  replacesObject?: boolean;
+}
+
+// A product sent along with a follow-up edit, for reference.
+export interface ReferencePromptProduct {
+  name: string;
+  background?: CutoutBackground;
+}
+
+// What the image model is asked to change in an existing scene.
+export type EditPromptInput =
+  | {
+      kind: 'refine';
+      instruction: string;
+      // One per product image, in the same order.
+      products: ReferencePromptProduct[];
+    }
+  | {
+      kind: 'remove';
+      objectDescription: string;
+      selectionBox: PlacementBox;
+    };
+
+// Helper to describe real-world product dimensions in prompt-friendly words, e.g. "60 cm wide × 45 cm tall".
+const formatDimensions = (dimensions: ProductDimensions): string => {
+    const { width, height, depth, unit } = dimensions;
+    return [
+        width ? `${width} ${unit} wide` : null,
+        height ? `${height} ${unit} tall` : null,
+        depth ? `${depth} ${unit} deep` : null,
+    ].filter(Boolean).join(' × ');
+};
+
+// Helper to describe a target box as a span of the image, e.g. "from 20% to 45% of the width ...".
+const describeBox = (box: PlacementBox): string =>
+    `from ${Math.round(box.xPercent)}% to ${Math.round(box.xPercent + box.widthPercent)}% of the image width (measured from the left) ` +
+    `and from ${Math.round(box.yPercent)}% to ${Math.round(box.yPercent + box.heightPercent)}% of the image height (measured from the top)`;
+
+// Cut-out products sit on a plain colour; photos keep whatever surrounded the product plus black padding.
+const describeProductImage = (background?: string) => background
+    ? `It has been cut out of its photo and placed on a plain ${background} background, which is not part of the product and should be ignored.`
+    : 'It may be surrounded by black padding or background, which you should ignore and treat as transparent and only keep the product.';
+
+/**
+ * Renders the prompt for one description request. The app renders prompts to show in the Debug view;
+ * the compositing server renders them again from the same template and data before calling the model.
+ */
+export const renderDescribePrompt = (template: PromptTemplateParts, input: DescribePromptInput): string => {
+    if (input.kind === 'identify') {
+        return renderPromptTemplate(template.identify, { selectionExtent: describeBox(input.selectionBox) });
+    }
+    const { markerIndex, markerCount, productName, dimensions, targetBox, replacesObject } = input;
+    const isMultiProduct = markerCount > 1;
+    // A replacement asks what the object under the marker is, rather than what the spot looks like.
+    return renderPromptTemplate(replacesObject ? template.describeReplaced : template.describe, {
+        markerReference: isMultiProduct ? `the red marker labelled "${markerIndex + 1}"` : 'the red marker',
+        multiple: isMultiProduct,
+        productName,
+        dimensions: dimensions ? formatDimensions(dimensions) : undefined,
+        targetExtent: targetBox ? describeBox(targetBox) : undefined,
+    });
+};
+
+// Renders the prompt that composes the products into the scene, in the order their images are sent.
+export const renderComposePrompt = (template: PromptTemplateParts, products: ComposePromptProduct[], hasMask: boolean): string => {
+    const isMultiProduct = products.length > 1;
+    // Only a generation made purely of replacements uses the replace prompt; mixed ones say per product what it replaces.
+    const isReplacement = products.every(p => p.replacesObject);
+
+    const productsSpecification = isMultiProduct
+      ? `-   **Products to add:**
+    The first ${products.length} images provided, in order: ${products.map((p, i) => `Product ${i + 1} is "${p.name}"`).join('; ')}.
+${products.map((p, i) => `    Product ${i + 1}: ${describeProductImage(p.background)}`).join('\n')}
+-   **Scene to use:**
+    The image provided right after the products. It may also be surrounded by black padding, which you should ignore.`
+      : `-   **Product to add:**
+    The first image provided. ${describeProductImage(products[0].background)}
+-   **Scene to use:**
+    The second image provided. It may also be surrounded by black padding, which you should ignore.`;
+
+    // Replacements have their own instructions, so templates written before them keep working for plain placements.
+    const placementInstructions = products.map((p, i) => p.replacesObject
+      ? renderPromptTemplate(template.replacement, {
+          label: isMultiProduct ? `Product ${i + 1}` : 'Product',
+          multiple: isMultiProduct,
+          productName: p.name,
+          replacedObject: p.locationDescription,
+          dimensions: p.dimensions ? formatDimensions(p.dimensions) : undefined,
+        })
+      : renderPromptTemplate(template.placement, {
+          label: isMultiProduct ? `Product ${i + 1}` : 'Product',
+          multiple: isMultiProduct,
+          productName: p.name,
+          locationDescription: p.locationDescription,
+          rotation: p.rotation,
+          // A drawn box decides the size on its own.
+          scalePercent: !p.targetBox && p.scale !== 1 ? Math.round(p.scale * 100) : undefined,
+          targetExtent: p.targetBox ? describeBox(p.targetBox) : undefined,
+          dimensions: p.dimensions ? formatDimensions(p.dimensions) : undefined,
+        })).join('\n');
+
+    return renderPromptTemplate(isReplacement ? template.replace : template.compose, {
+        productCount: products.length,
+        multiple: isMultiProduct,
+        productsSpecification,
+        placements: placementInstructions,
+        hasMask,
+    });
+};
+
+// Renders the prompt for a follow-up edit or an object removal.
+export const renderEditPrompt = (template: PromptTemplateParts, input: EditPromptInput, hasMask: boolean): string => {
+    if (input.kind === 'remove') {
+        return renderPromptTemplate(template.remove, {
+            objectDescription: input.objectDescription,
+            selectionExtent: describeBox(input.selectionBox),
+            hasMask,
+        });
+    }
+    const { instruction, products } = input;
+    const isMultiProduct = products.length > 1;
+    const productsSpecification = isMultiProduct
+      ? `The first ${products.length} images provided, in order: ${products.map((p, i) => `Product ${i + 1} is "${p.name}"`).join('; ')}.
+${products.map((p, i) => `    Product ${i + 1}: ${describeProductImage(p.background)}`).join('\n')}`
+      : products.length === 1
+      ? `The first image provided is "${products[0].name}". ${describeProductImage(products[0].background)}`
+      : undefined;
+
+    return renderPromptTemplate(template.refine, {
+        instruction: instruction.trim(),
+        hasProducts: products.length > 0,
+        productCount: products.length,
+        multiple: isMultiProduct,
+        productsSpecification,
+        hasMask,
+    });
+};
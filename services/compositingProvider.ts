@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PlacementBox } from '../components/types';
+import { ComposePromptProduct, DescribePromptInput, EditPromptInput } from './compositingPrompts';
+import { createLocalProvider } from './localProvider';
+import { PromptTemplateParts } from './promptTemplates';
+import { createProxyProvider } from './proxyProvider';
+
+// A position relative to the padded square image handed to the provider (0-100 on both axes).
+export interface PlacementPoint {
+  xPercent: number;
+  yPercent: number;
+}
+
+// A box relative to the padded square image handed to the provider (0-100 on both axes).
+export interface PaddedBox {
+  xPercent: number;
+  yPercent: number;
+  widthPercent: number;
+  heightPercent: number;
+}
+
+export interface DescribeLocationRequest {
+  // The padded square scene with the placement marker(s) drawn on it.
+  markedSceneImage: File;
+  // The prompts to render the request's prompt from.
+  template: PromptTemplateParts;
+  promptInput: DescribePromptInput;
+  // The marker this request asks about.
+  markerPosition: PlacementPoint;
+  // Aborts the request when the user cancels the generation.
+  signal?: AbortSignal;
+}
+
+export interface ComposeProduct extends ComposePromptProduct {
+  // The padded square product image.
+  image: File;
+  position: PlacementPoint;
+  // The area the product should fill, when one was drawn, relative to the padded square image.
+  box?: PaddedBox;
+}
+
+export interface ComposeImageRequest {
+  // Products in the order the prompt refers to them.
+  products: ComposeProduct[];
+  // The clean (unmarked) padded square scene image.
+  sceneImage: File;
+  // Padded square inpainting mask: white where pixels may change.
+  mask?: File;
+  // The prompts to render the request's prompt from.
+  template: PromptTemplateParts;
+  // A compose prompt edited by hand, sent instead of the rendered one. The compositing server only accepts it when
+  // started with ALLOW_CUSTOM_PROMPTS=true.
+  customPrompt?: string;
+  // Index of the candidate being generated when several are requested for the same prompt.
+  variant: number;
+  // Aborts the request when the user cancels the generation.
+  signal?: AbortSignal;
+}
+
+export interface EditImageRequest {
+  // The products already in the scene, as padded square images in prompt order, for reference only.
+  productImages: File[];
+  // The padded square scene to edit.
+  sceneImage: File;
+  // Padded square inpainting mask: white where pixels may change.
+  mask?: File;
+  // The prompts to render the request's prompt from.
+  template: PromptTemplateParts;
+  promptInput: EditPromptInput;
+  // Index of the candidate being generated when several are requested for the same prompt.
+  variant: number;
+  // Aborts the request when the user cancels the generation.
+  signal?: AbortSignal;
+}
+
+export interface SegmentProductRequest {
+  // The product photo, scaled down but not padded.
+  image: File;
+  // Aborts the request when the upload is cancelled.
+  signal?: AbortSignal;
+}
+
+export interface ProductSegmentation {
+  // Where the product sits, relative to the product photo (0-100 on both axes).
+  box: PlacementBox;
+  // Data URL of a greyscale mask covering `box`: bright where the product is.
+  maskUrl: string;
+}
+
+/**
+ * The model-backed steps of the compositing pipeline. Everything else
+ * (resizing, marking, cropping) happens locally in `generateCompositeImage`.
+ * Requests carry the template and the data to render the prompt from rather than the prompt itself,
+ * so the compositing server renders every prompt it sends (unless it allows `customPrompt`). Each step must reject once its
+ * request's `signal` is aborted.
+ */
+export interface CompositingProvider {
+  readonly name: string;
+  // Resolves to a dense, semantic description of what sits under the marker.
+  describeLocation: (request: DescribeLocationRequest) => Promise<string>;
+  // Resolves to a data URL of the composed padded square image.
+  composeImage: (request: ComposeImageRequest) => Promise<string>;
+  // Resolves to a data URL of the padded square scene with the follow-up edit or removal applied.
+  editImage: (request: EditImageRequest) => Promise<string>;
+  // Finds the product in an uploaded photo so it can be cut out of its background.
+  segmentProduct: (request: SegmentProductRequest) => Promise<ProductSegmentation>;
+}
+
+let activeProvider: CompositingProvider | null = null;
+
+/**
+ * Returns the provider used when `generateCompositeImage` is not given one explicitly: the compositing
+ * server at `COMPOSITING_API_URL` (the app's own origin by default). `COMPOSITING_PROVIDER=local`
+ * switches to the in-browser stand-in, which needs no server at all.
+ */
+export const getCompositingProvider = (): CompositingProvider => {
+  if (!activeProvider) {
+    const useLocal = process.env.COMPOSITING_PROVIDER === 'local';
+    activeProvider = useLocal ? createLocalProvider() : createProxyProvider(process.env.COMPOSITING_API_URL ?? '');
+    console.log(`Using the "${activeProvider.name}" compositing provider.`);
+  }
+  return activeProvider;
+};
+
+// Overrides the default provider, e.g. to switch to the local stand-in at runtime.
+export const setCompositingProvider = (provider: CompositingProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'home-canvas';
+const DB_VERSION = 3;
+
+export const PRODUCTS_STORE = 'products';
+export const SESSION_STORE = 'session';
+export const PROMPT_TEMPLATES_STORE = 'promptTemplates';
+export const SETTINGS_STORE = 'settings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Opens (and on first use creates or upgrades) the app's IndexedDB database. The connection is shared.
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PRODUCTS_STORE)) {
+                    db.createObjectStore(PRODUCTS_STORE, { keyPath: 'id', autoIncrement: true });
+                }
+                if (!db.objectStoreNames.contains(SESSION_STORE)) {
+                    db.createObjectStore(SESSION_STORE);
+                }
+                // Every saved version of a template is kept, so older results can still be traced back to it.
+                if (!db.objectStoreNames.contains(PROMPT_TEMPLATES_STORE)) {
+                    db.createObjectStore(PROMPT_TEMPLATES_STORE, { keyPath: ['id', 'version'] });
+                }
+                if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+                    db.createObjectStore(SETTINGS_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(new Error(`Could not open the local database: ${request.error?.message}`));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Helper to run a single request against one object store and resolve once its transaction completes.
+export const runStoreRequest = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = makeRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(new Error(`Database request failed: ${transaction.error?.message}`));
+        transaction.onabort = () => reject(new Error(`Database transaction aborted: ${transaction.error?.message}`));
+    });
+};
@@ -3,398 +3,622 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import { PipelineStage, PlacementBox, ProductDimensions, PromptTemplateRef, RemovalRecord, StageDurations } from '../components/types';
+import {
+  ComposePromptProduct, DescribePromptInput, EditPromptInput, PROMPT_TEXT_LIMITS, renderComposePrompt, renderEditPrompt, truncateText,
+} from './compositingPrompts';
+import { CompositingProvider, PaddedBox, PlacementPoint, getCompositingProvider } from './compositingProvider';
+import { InvalidInputError, TransientError } from './compositingErrors';
+import { PreparedImages } from './imageOps';
+import { finishCandidate, markScene, measureSelection, prepareImages } from './imagePipeline';
+import { DEFAULT_PROMPT_TEMPLATE, PromptTemplate, toPromptTemplateRef } from './promptTemplates';
+
+// Transient model failures are attempted this many times in total, backing off exponentially in between.
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+// Define standard dimension for model inputs
+const MAX_DIMENSION = 1024;
 
-// FIX: Import Modality for use with the image editing model.
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
-
-// Helper to get intrinsic image dimensions from a File object
-const getImageDimensions = (file: File): Promise<{ width: number; height: number }> => {
+// Helper to convert File to a data URL string
+const fileToDataUrl = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.readAsDataURL(file);
-        reader.onload = (event) => {
-            if (!event.target?.result) {
-                return reject(new Error("Failed to read file."));
-            }
-            const img = new Image();
-            img.src = event.target.result as string;
-            img.onload = () => {
-                resolve({ width: img.naturalWidth, height: img.naturalHeight });
-            };
-            img.onerror = (err) => reject(new Error(`Image load error: ${err}`));
-        };
-        reader.onerror = (err) => reject(new Error(`File reader error: ${err}`));
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
     });
 };
 
-// Helper to crop a square image back to an original aspect ratio, removing padding.
-const cropToOriginalAspectRatio = (
-    imageDataUrl: string,
-    originalWidth: number,
-    originalHeight: number,
-    targetDimension: number
-): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.src = imageDataUrl;
-        img.onload = () => {
-            // Re-calculate the dimensions of the content area within the padded square image
-            const aspectRatio = originalWidth / originalHeight;
-            let contentWidth, contentHeight;
-            if (aspectRatio > 1) { // Landscape
-                contentWidth = targetDimension;
-                contentHeight = targetDimension / aspectRatio;
-            } else { // Portrait or square
-                contentHeight = targetDimension;
-                contentWidth = targetDimension * aspectRatio;
-            }
-
-            // Calculate the top-left offset of the content area
-            const x = (targetDimension - contentWidth) / 2;
-            const y = (targetDimension - contentHeight) / 2;
+// Helper to translate a content-relative position into a position relative to the padded square image
+const toPaddedPosition = (
+    position: { xPercent: number; yPercent: number; },
+    originalDimensions: { originalWidth: number; originalHeight: number; }
+): PlacementPoint => {
+    const { originalWidth, originalHeight } = originalDimensions;
+    const aspectRatio = originalWidth / originalHeight;
+    // Work in a unit square; the content fills it along its longest side.
+    const contentWidth = aspectRatio > 1 ? 1 : aspectRatio;
+    const contentHeight = aspectRatio > 1 ? 1 / aspectRatio : 1;
+    return {
+        xPercent: ((1 - contentWidth) / 2) * 100 + position.xPercent * contentWidth,
+        yPercent: ((1 - contentHeight) / 2) * 100 + position.yPercent * contentHeight,
+    };
+};
 
-            const canvas = document.createElement('canvas');
-            // Set canvas to the final, un-padded dimensions
-            canvas.width = contentWidth;
-            canvas.height = contentHeight;
+// Helper to translate a content-relative box into a box relative to the padded square image
+const toPaddedBox = (
+    box: PlacementBox,
+    originalDimensions: { originalWidth: number; originalHeight: number; }
+): PaddedBox => {
+    const topLeft = toPaddedPosition(box, originalDimensions);
+    const bottomRight = toPaddedPosition(
+        { xPercent: box.xPercent + box.widthPercent, yPercent: box.yPercent + box.heightPercent },
+        originalDimensions
+    );
+    return {
+        xPercent: topLeft.xPercent,
+        yPercent: topLeft.yPercent,
+        widthPercent: bottomRight.xPercent - topLeft.xPercent,
+        heightPercent: bottomRight.yPercent - topLeft.yPercent,
+    };
+};
 
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                return reject(new Error('Could not get canvas context for cropping.'));
-            }
-            
-            // Draw the relevant part of the square generated image onto the new, smaller canvas
-            ctx.drawImage(img, x, y, contentWidth, contentHeight, 0, 0, contentWidth, contentHeight);
-            
-            // Return the data URL of the newly cropped image
-            resolve(canvas.toDataURL('image/jpeg', 0.95));
+// Helper to wait between retries; rejects as soon as the generation is cancelled
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            return reject(signal.reason);
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
         };
-        img.onerror = (err) => reject(new Error(`Image load error during cropping: ${err}`));
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
     });
 };
 
-
-// New resize logic inspired by the reference to enforce a consistent aspect ratio without cropping.
-// It resizes the image to fit within a square and adds padding, ensuring a consistent
-// input size for the AI model, which enhances stability.
-const resizeImage = (file: File, targetDimension: number): Promise<File> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = (event) => {
-            if (!event.target?.result) {
-                return reject(new Error("Failed to read file."));
+// Helper to run a model call, retrying transient failures with exponential backoff
+export const withRetry = async <T>(label: string, call: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await call();
+        } catch (error) {
+            signal?.throwIfAborted();
+            if (!(error instanceof TransientError) || attempt >= MAX_ATTEMPTS) {
+                throw error;
             }
-            const img = new Image();
-            img.src = event.target.result as string;
-            img.onload = () => {
-                const canvas = document.createElement('canvas');
-                canvas.width = targetDimension;
-                canvas.height = targetDimension;
-
-                const ctx = canvas.getContext('2d');
-                if (!ctx) {
-                    return reject(new Error('Could not get canvas context.'));
-                }
-
-                // Fill the canvas with a neutral background to avoid transparency issues
-                // and ensure a consistent input format for the model.
-                ctx.fillStyle = 'black';
-                ctx.fillRect(0, 0, targetDimension, targetDimension);
-
-                // Calculate new dimensions to fit inside the square canvas while maintaining aspect ratio
-                const aspectRatio = img.width / img.height;
-                let newWidth, newHeight;
-
-                if (aspectRatio > 1) { // Landscape image
-                    newWidth = targetDimension;
-                    newHeight = targetDimension / aspectRatio;
-                } else { // Portrait or square image
-                    newHeight = targetDimension;
-                    newWidth = targetDimension * aspectRatio;
-                }
-
-                // Calculate position to center the image on the canvas
-                const x = (targetDimension - newWidth) / 2;
-                const y = (targetDimension - newHeight) / 2;
-                
-                // Draw the resized image onto the centered position
-                ctx.drawImage(img, x, y, newWidth, newHeight);
-
-                canvas.toBlob((blob) => {
-                    if (blob) {
-                        resolve(new File([blob], file.name, {
-                            type: 'image/jpeg', // Force jpeg to handle padding color consistently
-                            lastModified: Date.now()
-                        }));
-                    } else {
-                        reject(new Error('Canvas to Blob conversion failed.'));
-                    }
-                }, 'image/jpeg', 0.95);
-            };
-            img.onerror = (err) => reject(new Error(`Image load error: ${err}`));
-        };
-        reader.onerror = (err) => reject(new Error(`File reader error: ${err}`));
-    });
+            const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+            console.warn(`${label} failed (attempt ${attempt} of ${MAX_ATTEMPTS}), retrying in ${delay}ms:`, error);
+            await wait(delay, signal);
+        }
+    }
 };
 
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
+// Helper to keep the successful results; a failure only matters if every one of them failed
+const keepFulfilled = (results: PromiseSettledResult<string>[]): string[] => {
+    const values = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    if (values.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
+    }
+    return values;
 };
 
-// Helper to convert File to a data URL string
-const fileToDataUrl = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
+type RunStage = <T>(
+    stage: PipelineStage,
+    work: (reportProgress: (completed: number, total: number) => void) => Promise<T>
+) => Promise<T>;
+
+/**
+ * Sets up one run of a pipeline: `runStage` reports each stage's progress and records how long it took.
+ * Bitmaps pushed to `decodedBitmaps` live until `releaseBitmaps` is called, or until a stage fails.
+ */
+const createStageRunner = (options: Pick<GenerateCompositeImageOptions, 'signal' | 'onProgress'>) => {
+  const { signal } = options;
+  const stageDurations = {} as StageDurations;
+  const decodedBitmaps: ImageBitmap[] = [];
+  const releaseBitmaps = () => decodedBitmaps.splice(0).forEach(bitmap => bitmap.close());
+
+  const runStage: RunStage = async (stage, work) => {
+    const startedAt = performance.now();
+    options.onProgress?.({ stage, status: 'started' });
+    let result;
+    try {
+      result = await work((completed, total) => options.onProgress?.({ stage, status: 'progress', completed, total }));
+      signal?.throwIfAborted();
+    } catch (error) {
+      releaseBitmaps();
+      throw error;
+    }
+    stageDurations[stage] = Math.round(performance.now() - startedAt);
+    console.log(`Stage "${stage}" took ${stageDurations[stage]}ms.`);
+    options.onProgress?.({ stage, status: 'finished', durationMs: stageDurations[stage] });
+    return result;
+  };
+
+  return { runStage, stageDurations, decodedBitmaps, releaseBitmaps };
 };
 
-// Helper to draw a marker on an image and return a new File object
-const markImage = async (
-    paddedSquareFile: File, 
-    position: { xPercent: number; yPercent: number; },
-    originalDimensions: { originalWidth: number; originalHeight: number; }
-): Promise<File> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(paddedSquareFile);
-        reader.onload = (event) => {
-            if (!event.target?.result) {
-                return reject(new Error("Failed to read file for marking."));
-            }
-            const img = new Image();
-            img.src = event.target.result as string;
-            img.onload = () => {
-                const canvas = document.createElement('canvas');
-                canvas.width = img.width;
-                canvas.height = img.height;
-                const targetDimension = canvas.width;
-
-                const ctx = canvas.getContext('2d');
-                if (!ctx) {
-                    return reject(new Error('Could not get canvas context for marking.'));
-                }
-
-                // Draw the original (padded) image
-                ctx.drawImage(img, 0, 0);
-
-                // Recalculate the content area's dimensions and offset within the padded square canvas.
-                // This is crucial to translate the content-relative percentages to the padded canvas coordinates.
-                const { originalWidth, originalHeight } = originalDimensions;
-                const aspectRatio = originalWidth / originalHeight;
-                let contentWidth, contentHeight;
-
-                if (aspectRatio > 1) { // Landscape
-                    contentWidth = targetDimension;
-                    contentHeight = targetDimension / aspectRatio;
-                } else { // Portrait or square
-                    contentHeight = targetDimension;
-                    contentWidth = targetDimension * aspectRatio;
-                }
-                
-                const offsetX = (targetDimension - contentWidth) / 2;
-                const offsetY = (targetDimension - contentHeight) / 2;
-
-                // Calculate the marker's coordinates relative to the actual image content
-                const markerXInContent = (position.xPercent / 100) * contentWidth;
-                const markerYInContent = (position.yPercent / 100) * contentHeight;
-
-                // The final position on the canvas is the content's offset plus the relative position
-                const finalMarkerX = offsetX + markerXInContent;
-                const finalMarkerY = offsetY + markerYInContent;
-
-                // Make radius proportional to image size, but with a minimum
-                const markerRadius = Math.max(5, Math.min(canvas.width, canvas.height) * 0.015);
-
-                // Draw the marker (red circle with white outline) at the corrected coordinates
-                ctx.beginPath();
-                ctx.arc(finalMarkerX, finalMarkerY, markerRadius, 0, 2 * Math.PI, false);
-                ctx.fillStyle = 'red';
-                ctx.fill();
-                ctx.lineWidth = markerRadius * 0.2;
-                ctx.strokeStyle = 'white';
-                ctx.stroke();
-
-                canvas.toBlob((blob) => {
-                    if (blob) {
-                        resolve(new File([blob], `marked-${paddedSquareFile.name}`, {
-                            type: 'image/jpeg',
-                            lastModified: Date.now()
-                        }));
-                    } else {
-                        reject(new Error('Canvas to Blob conversion failed during marking.'));
-                    }
-                }, 'image/jpeg', 0.95);
-            };
-            img.onerror = (err) => reject(new Error(`Image load error during marking: ${err}`));
-        };
-        reader.onerror = (err) => reject(new Error(`File reader error during marking: ${err}`));
-    });
+// Helper to run the composing stage: candidates run in parallel from the same prompt, and it only fails if all of them do
+const generateCandidates = async (
+    runStage: RunStage,
+    requestedCount: number | undefined,
+    generateCandidate: (variant: number) => Promise<string>,
+    signal?: AbortSignal
+): Promise<string[]> => {
+  const candidateCount = Math.max(1, Math.floor(requestedCount ?? 1));
+  console.log(`Generating ${candidateCount} candidate(s)...`);
+  const squareImageUrls = await runStage('composing', async (reportProgress) => {
+    let completed = 0;
+    const results = await Promise.allSettled(Array.from({ length: candidateCount }, async (_, variant) => {
+      try {
+        return await generateCandidate(variant);
+      } finally {
+        reportProgress(++completed, candidateCount);
+      }
+    }));
+    signal?.throwIfAborted();
+    return keepFulfilled(results);
+  });
+  if (squareImageUrls.length < candidateCount) {
+    console.warn(`${candidateCount - squareImageUrls.length} of ${candidateCount} candidates failed.`);
+  }
+  return squareImageUrls;
 };
 
+// Helper to run the cropping stage. The model only sees a 1024px square; its changes are pasted back into
+// the full resolution scene. Outside the mask (or outside what the model changed) every pixel comes from the original.
+const cropCandidates = async (
+    runStage: RunStage,
+    squareImageUrls: string[],
+    prepared: Pick<PreparedImages, 'originalWidth' | 'originalHeight' | 'sceneBitmap' | 'originalBitmap' | 'maskBitmap'>
+): Promise<string[]> => {
+  console.log('Restoring candidates to the original aspect ratio and resolution...');
+  const { originalWidth, originalHeight, sceneBitmap, originalBitmap, maskBitmap } = prepared;
+  return runStage('cropping', async () => keepFulfilled(await Promise.allSettled(squareImageUrls.map(generatedImageUrl => finishCandidate({
+    generatedImageUrl,
+    originalWidth,
+    originalHeight,
+    targetDimension: MAX_DIMENSION,
+    sceneBitmap,
+    originalBitmap,
+    maskBitmap,
+  })))));
+};
+
+export interface GenerateCompositeImageOptions {
+  provider?: CompositingProvider;
+  // Inpainting mask aligned with the scene: white where the model may change pixels, black where the scene must be kept.
+  mask?: File;
+  // How many composites to generate in parallel from the same prompt. Defaults to 1.
+  candidateCount?: number;
+  // Cancels the generation: in-flight model calls are aborted and the promise rejects with the abort reason.
+  signal?: AbortSignal;
+  // Called as the pipeline moves through its stages.
+  onProgress?: (event: PipelineProgressEvent) => void;
+  // The prompts to use. Defaults to the built-in template.
+  promptTemplate?: PromptTemplate;
+  // Skips the description model and uses these location descriptions instead, one per placement.
+  locationDescriptions?: string[];
+  // Sends this compose prompt exactly as written instead of rendering it from the template.
+  prompt?: string;
+}
+
+export const PIPELINE_STAGES: PipelineStage[] = ['resizing', 'marking', 'describing', 'composing', 'cropping'];
+
+export interface PipelineProgressEvent {
+  stage: PipelineStage;
+  status: 'started' | 'progress' | 'finished';
+  // On 'progress' events: how many of the stage's items (descriptions, candidates) are done.
+  completed?: number;
+  total?: number;
+  // On 'finished' events: how long the stage took, in milliseconds.
+  durationMs?: number;
+}
+
+export interface GenerateCompositeImageResult {
+  finalImageUrl: string;
+  alternateImageUrls: string[];
+  debugImageUrl: string;
+  finalPrompt: string;
+  // The location description each placement was composed with, in placement order.
+  locationDescriptions: string[];
+  // The template version `finalPrompt` was rendered from.
+  promptTemplate: PromptTemplateRef;
+  stageDurations: StageDurations;
+}
+
+// A single product to be placed in the scene.
+export interface ProductPlacement {
+  objectImage: File;
+  objectDescription: string;
+  // The relative x/y coordinates (0-100) where the product was dropped.
+  dropPosition: { xPercent: number; yPercent: number; };
+  // The rotation in degrees to apply to the product.
+  rotation: number;
+  // The size relative to the product's natural size in the scene (1 = let the model decide).
+  scale: number;
+  // The product's real-world size, when known.
+  dimensions?: ProductDimensions;
+  // The area the product should fill, relative to the image content (0-100). Takes precedence over `scale`.
+  targetBox?: PlacementBox;
+  // Swaps the object at the drop position for the product, which takes over its footprint and orientation.
+  // `rotation` and `scale` are not used then.
+  replacesObject?: boolean;
+}
 
 /**
  * Generates a composite image using a multi-modal AI model.
- * The model takes a product image, a scene image, and a text prompt
- * to generate a new image with the product placed in the scene.
- * @param objectImage The file for the object to be placed.
- * @param objectDescription A text description of the object.
+ * The model takes one or more product images, a scene image, and a text prompt
+ * to generate a new image with every product placed in the scene in a single pass.
+ * @param placements The products to place, each with its own drop position, rotation and scale, or
+ * replacing the object at its drop position.
  * @param environmentImage The file for the background environment.
  * @param environmentDescription A text description of the environment.
- * @param dropPosition The relative x/y coordinates (0-100) where the product was dropped.
- * @param rotation The rotation in degrees to apply to the product.
- * @returns A promise that resolves to an object containing the base64 data URL of the generated image and the debug image.
+ * @param options Optional overrides; `provider` defaults to the configured compositing provider and
+ * `mask` restricts which pixels of the scene may change, `candidateCount` asks for several alternatives,
+ * `signal` cancels the generation, `onProgress` reports each stage as it starts and finishes,
+ * `promptTemplate` replaces the built-in prompts, and `locationDescriptions` and `prompt` replace
+ * what the pipeline would otherwise generate (e.g. after the user corrected them).
+ * @returns A promise that resolves to an object containing the base64 data URL of the generated image, any
+ * alternative candidates, the debug image and how long each stage took.
  */
 export const generateCompositeImage = async (
-    objectImage: File, 
-    objectDescription: string,
+    placements: ProductPlacement[],
     environmentImage: File,
     environmentDescription: string,
-    dropPosition: { xPercent: number; yPercent: number; },
-    rotation: number
-): Promise<{ finalImageUrl: string; debugImageUrl: string; finalPrompt: string; }> => {
-  console.log('Starting multi-step image generation process...');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-
-  // Get original scene dimensions for final cropping and correct marker placement
-  const { width: originalWidth, height: originalHeight } = await getImageDimensions(environmentImage);
-  
-  // Define standard dimension for model inputs
-  const MAX_DIMENSION = 1024;
-  
-  // STEP 1: Prepare images by resizing
+    options: GenerateCompositeImageOptions = {}
+): Promise<GenerateCompositeImageResult> => {
+  if (placements.length === 0) {
+    throw new InvalidInputError('At least one product placement is required.');
+  }
+  if (options.locationDescriptions && options.locationDescriptions.length !== placements.length) {
+    throw new InvalidInputError('There must be one location description for every product placement.');
+  }
+  console.log(`Starting multi-step image generation process for ${placements.length} product(s)...`);
+  const provider = options.provider ?? getCompositingProvider();
+  const { signal } = options;
+  const template = options.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE;
+
+  // The decoded padded scene and mask live until the last stage, or until a stage fails.
+  const { runStage, stageDurations, decodedBitmaps, releaseBitmaps } = createStageRunner(options);
+
+  // STEP 1: Prepare images by resizing. Each input is decoded once, off the main thread; the scene's
+  // original dimensions drive the final cropping and the marker placement.
   console.log('Resizing product and scene images...');
-  const resizedObjectImage = await resizeImage(objectImage, MAX_DIMENSION);
-  const resizedEnvironmentImage = await resizeImage(environmentImage, MAX_DIMENSION);
+  const prepared = await runStage('resizing', () => prepareImages({
+    scene: environmentImage,
+    products: placements.map(p => p.objectImage),
+    // The mask is padded the same way as the scene; the black padding reads as "keep".
+    mask: options.mask,
+    targetDimension: MAX_DIMENSION,
+  }).catch(error => {
+    throw new InvalidInputError('The scene or product images could not be read. Please upload them again.', { cause: error });
+  }));
+  const { originalWidth, originalHeight, sceneBitmap, maskBitmap, originalBitmap, productBackgrounds } = prepared;
+  const resizedObjectImages = prepared.products.map((blob, i) => new File([blob], placements[i].objectImage.name, { type: 'image/jpeg' }));
+  const resizedEnvironmentImage = new File([prepared.scene], environmentImage.name, { type: 'image/jpeg' });
+  const resizedMask = prepared.mask && new File([prepared.mask], 'mask.jpeg', { type: 'image/jpeg' });
+  decodedBitmaps.push(sceneBitmap, originalBitmap);
+  if (maskBitmap) decodedBitmaps.push(maskBitmap);
 
   // STEP 2: Mark the resized scene image for the description model and debug view
   console.log('Marking scene image for analysis...');
-  // Pass original dimensions to correctly calculate marker position on the padded image
-  const markedResizedEnvironmentImage = await markImage(resizedEnvironmentImage, dropPosition, { originalWidth, originalHeight });
-
-  // The debug image is now the marked one.
-  const debugImageUrl = await fileToDataUrl(markedResizedEnvironmentImage);
-
-
-  // STEP 3: Generate semantic location description with Gemini 2.5 Flash using the MARKED image
-  console.log('Generating semantic location description with gemini-2.5-flash...');
-  
-  const markedEnvironmentImagePart = await fileToPart(markedResizedEnvironmentImage);
-
-  const descriptionPrompt = `
-You are an expert scene analyst. I will provide you with an image that has a red marker on it.
-Your task is to provide a very dense, semantic description of what is at the exact location of the red marker.
-Be specific about surfaces, objects, and spatial relationships. This description will be used to guide another AI in placing a new object.
-
-Example semantic descriptions:
-- "The product location is on the dark grey fabric of the sofa cushion, in the middle section, slightly to the left of the white throw pillow."
-- "The product location is on the light-colored wooden floor, in the patch of sunlight coming from the window, about a foot away from the leg of the brown leather armchair."
-- "The product location is on the white marble countertop, just to the right of the stainless steel sink and behind the green potted plant."
-
-On top of the semantic description above, give a rough relative-to-image description.
-
-Example relative-to-image descriptions:
-- "The product location is about 10% away from the bottom-left of the image."
-- "The product location is about 20% away from the right of the image."
-
-Provide only the two descriptions concatenated in a few sentences.
-`;
-  
-  let semanticLocationDescription = '';
-  try {
-    const descriptionResponse = await ai.models.generateContent({
-      // FIX: Per coding guidelines, 'gemini-2.5-flash-lite' is not a valid model. Changed to 'gemini-2.5-flash'.
-      model: 'gemini-2.5-flash',
-      contents: { parts: [{ text: descriptionPrompt }, markedEnvironmentImagePart] }
+  const { markedResizedEnvironmentImage, debugImageUrl } = await runStage('marking', async () => {
+    // Pass original dimensions to correctly calculate marker positions on the padded image
+    const markedImage = await markScene({
+        sceneBitmap,
+        markers: placements.map(p => ({ position: p.dropPosition, scale: p.scale, box: p.targetBox })),
+        originalWidth,
+        originalHeight,
     });
-    semanticLocationDescription = descriptionResponse.text;
-    console.log('Generated description:', semanticLocationDescription);
-  } catch (error) {
-    console.error('Failed to generate semantic location description:', error);
-    // Fallback to a generic statement if the description generation fails
-    semanticLocationDescription = `at the specified location.`;
-  }
+    const markedFile = new File([markedImage], `marked-${environmentImage.name}`, { type: 'image/jpeg' });
+    // The debug image is now the marked one.
+    return { markedResizedEnvironmentImage: markedFile, debugImageUrl: await fileToDataUrl(markedFile) };
+  });
+
+  // The marker positions relative to the padded square images the provider receives.
+  const paddedDropPositions = placements.map(p => toPaddedPosition(p.dropPosition, { originalWidth, originalHeight }));
+
+  // STEP 3: Generate a semantic location description for every marker using the MARKED image
+  console.log('Generating semantic location descriptions...');
+
+  const describeMarker = async (index: number): Promise<string> => {
+    const { dimensions, targetBox, objectDescription, replacesObject } = placements[index];
+    const promptInput: DescribePromptInput = {
+      kind: 'location',
+      markerIndex: index,
+      markerCount: placements.length,
+      productName: truncateText(objectDescription, PROMPT_TEXT_LIMITS.productName),
+      dimensions,
+      targetBox,
+      replacesObject,
+    };
+
+    // Failures are not papered over: a quota, safety or network problem here would hit the compose step as well.
+    const description = await withRetry(`Location description ${index + 1}`, () => provider.describeLocation({
+      markedSceneImage: markedResizedEnvironmentImage,
+      template,
+      promptInput,
+      markerPosition: paddedDropPositions[index],
+      signal,
+    }), signal);
+    if (!description.trim()) {
+      console.warn(`The description for marker ${index + 1} came back empty; using the marker position alone.`);
+      return `at the specified location.`;
+    }
+    console.log(`Generated description for marker ${index + 1}:`, description);
+    // A long answer is cut short rather than failing the compose request it goes into.
+    return truncateText(description, PROMPT_TEXT_LIMITS.description);
+  };
+
+  const semanticLocationDescriptions = await runStage('describing', async (reportProgress) => {
+    if (options.locationDescriptions) {
+      console.log('Using the given location descriptions.');
+      return options.locationDescriptions;
+    }
+    let completed = 0;
+    return Promise.all(placements.map(async (_, index) => {
+      const description = await describeMarker(index);
+      reportProgress(++completed, placements.length);
+      return description;
+    }));
+  });
 
-  // STEP 4: Generate composite image using the CLEAN image and the description
+  // STEP 4: Generate composite image using the CLEAN image and the descriptions
   console.log('Preparing to generate composite image...');
-  
-  const objectImagePart = await fileToPart(resizedObjectImage);
-  const cleanEnvironmentImagePart = await fileToPart(resizedEnvironmentImage); // IMPORTANT: Use clean image
-  
-  const prompt = `
-**Role:**
-You are a visual composition expert. Your task is to take a 'product' image and seamlessly integrate it into a 'scene' image, adjusting for perspective, lighting, and scale.
-
-**Specifications:**
--   **Product to add:**
-    The first image provided. It may be surrounded by black padding or background, which you should ignore and treat as transparent and only keep the product.
--   **Scene to use:**
-    The second image provided. It may also be surrounded by black padding, which you should ignore.
--   **Placement Instruction (Crucial):**
-    -   You must place the product at the location described below exactly. You should only place the product once. Use this dense, semantic description to find the exact spot in the scene.
-    -   **Product location Description:** "${semanticLocationDescription}"
--   **Rotation Instruction:**
-    -   Rotate the product by approximately ${rotation} degrees clockwise from its original orientation in the product image. The final orientation in the scene should be natural, taking this rotation into account.
--   **Final Image Requirements:**
-    -   The output image's style, lighting, shadows, reflections, and camera perspective must exactly match the original scene.
-    -   Do not just copy and paste the product. You must intelligently re-render it to fit the context. Adjust the product's perspective and orientation to its most natural position, scale it appropriately, and ensure it casts realistic shadows according to the scene's light sources.
-    -   The product must have proportional realism. For example, a lamp product can't be bigger than a sofa in scene.
-    -   You must not return the original scene image without product placement. The product must be always present in the composite image.
-
-The output should ONLY be the final, composed image. Do not add any text or explanation.
-`;
-
-  const textPart = { text: prompt };
-  
-  console.log('Sending images and augmented prompt...');
-  
-  // FIX: Added required `responseModalities` config for the image editing model as per coding guidelines.
-  const response: GenerateContentResponse = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image-preview',
-    contents: { parts: [objectImagePart, cleanEnvironmentImagePart, textPart] }, // IMPORTANT: Use clean image
-    config: {
-        responseModalities: [Modality.IMAGE, Modality.TEXT],
-    },
+
+  const promptProducts: ComposePromptProduct[] = placements.map((p, i) => ({
+    name: truncateText(p.objectDescription, PROMPT_TEXT_LIMITS.productName),
+    background: productBackgrounds[i] ?? undefined,
+    locationDescription: truncateText(semanticLocationDescriptions[i], PROMPT_TEXT_LIMITS.description),
+    rotation: p.rotation,
+    scale: p.scale,
+    targetBox: p.targetBox,
+    dimensions: p.dimensions,
+    replacesObject: p.replacesObject,
+  }));
+  // The provider renders the same prompt from the same data; it is rendered here for the Debug view.
+  const prompt = options.prompt ?? renderComposePrompt(template, promptProducts, !!resizedMask);
+
+  const composeCandidate = (variant: number): Promise<string> =>
+    withRetry(`Candidate ${variant + 1}`, () => provider.composeImage({
+      products: placements.map((p, i) => ({
+        ...promptProducts[i],
+        image: resizedObjectImages[i],
+        position: paddedDropPositions[i],
+        box: p.targetBox ? toPaddedBox(p.targetBox, { originalWidth, originalHeight }) : undefined,
+      })),
+      sceneImage: resizedEnvironmentImage, // IMPORTANT: Use clean image
+      mask: resizedMask,
+      template,
+      customPrompt: options.prompt,
+      variant,
+      signal,
+    }), signal);
+
+  const squareImageUrls = await generateCandidates(runStage, options.candidateCount, composeCandidate, signal);
+
+  // STEP 5: Crop the candidates back to the scene's aspect ratio and original resolution
+  const imageUrls = await cropCandidates(runStage, squareImageUrls, prepared);
+  releaseBitmaps();
+
+  const [finalImageUrl, ...alternateImageUrls] = imageUrls;
+  return {
+    finalImageUrl,
+    alternateImageUrls,
+    debugImageUrl,
+    finalPrompt: prompt,
+    locationDescriptions: semanticLocationDescriptions,
+    promptTemplate: toPromptTemplateRef(template),
+    stageDurations,
+  };
+};
+
+export type EditCompositeImageOptions = Omit<GenerateCompositeImageOptions, 'locationDescriptions' | 'prompt'>;
+
+export type EditCompositeImageResult = Omit<GenerateCompositeImageResult, 'locationDescriptions'>;
+
+// A product already in the scene, sent along so the model keeps it looking like the real thing.
+export interface ReferenceProduct {
+  objectImage: File;
+  objectDescription: string;
+}
+
+/**
+ * Applies a follow-up edit typed by the user ("make the lamp warmer") to an already composed scene.
+ * There is nothing to mark or describe: the scene, the products in it and the instruction go
+ * straight to the image model, and the result is cropped back like a composite.
+ * @param instruction What to change, in the user's words.
+ * @param products The products placed in the scene, for reference. May be empty.
+ * @param sceneImage The scene to edit.
+ * @param options The same overrides as `generateCompositeImage`; the `refine` part of `promptTemplate` is used.
+ * @returns The edited scene and its alternatives. `debugImageUrl` is the padded scene the model received.
+ */
+export const editCompositeImage = async (
+    instruction: string,
+    products: ReferenceProduct[],
+    sceneImage: File,
+    options: EditCompositeImageOptions = {}
+): Promise<EditCompositeImageResult> => {
+  if (!instruction.trim()) {
+    throw new InvalidInputError('Describe the change you want to make to the scene.');
+  }
+  if (instruction.trim().length > PROMPT_TEXT_LIMITS.instruction) {
+    throw new InvalidInputError(`Describe the change in at most ${PROMPT_TEXT_LIMITS.instruction} characters.`);
+  }
+  console.log(`Starting follow-up edit with ${products.length} reference product(s)...`);
+  const provider = options.provider ?? getCompositingProvider();
+  const { signal } = options;
+  const template = options.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE;
+
+  const { runStage, stageDurations, decodedBitmaps, releaseBitmaps } = createStageRunner(options);
+
+  // STEP 1: Prepare the scene, products and mask exactly as for a composite
+  console.log('Resizing product and scene images...');
+  const prepared = await runStage('resizing', () => prepareImages({
+    scene: sceneImage,
+    products: products.map(p => p.objectImage),
+    mask: options.mask,
+    targetDimension: MAX_DIMENSION,
+  }).catch(error => {
+    throw new InvalidInputError('The scene or product images could not be read. Please upload them again.', { cause: error });
+  }));
+  const { sceneBitmap, maskBitmap, originalBitmap, productBackgrounds } = prepared;
+  const resizedProductImages = prepared.products.map((blob, i) => new File([blob], products[i].objectImage.name, { type: 'image/jpeg' }));
+  const resizedSceneImage = new File([prepared.scene], sceneImage.name, { type: 'image/jpeg' });
+  const resizedMask = prepared.mask && new File([prepared.mask], 'mask.jpeg', { type: 'image/jpeg' });
+  decodedBitmaps.push(sceneBitmap, originalBitmap);
+  if (maskBitmap) decodedBitmaps.push(maskBitmap);
+  const debugImageUrl = await fileToDataUrl(resizedSceneImage);
+
+  // STEP 2: Ask for the edit
+  const promptInput: EditPromptInput = {
+    kind: 'refine',
+    instruction: instruction.trim(),
+    products: products.map((p, i) => ({
+      name: truncateText(p.objectDescription, PROMPT_TEXT_LIMITS.productName),
+      background: productBackgrounds[i] ?? undefined,
+    })),
+  };
+  const prompt = renderEditPrompt(template, promptInput, !!resizedMask);
+
+  const editCandidate = (variant: number): Promise<string> =>
+    withRetry(`Edit candidate ${variant + 1}`, () => provider.editImage({
+      productImages: resizedProductImages,
+      sceneImage: resizedSceneImage,
+      mask: resizedMask,
+      template,
+      promptInput,
+      variant,
+      signal,
+    }), signal);
+
+  const squareImageUrls = await generateCandidates(runStage, options.candidateCount, editCandidate, signal);
+
+  // STEP 3: Crop the candidates back to the scene's aspect ratio and original resolution
+  const imageUrls = await cropCandidates(runStage, squareImageUrls, prepared);
+  releaseBitmaps();
+
+  const [finalImageUrl, ...alternateImageUrls] = imageUrls;
+  return {
+    finalImageUrl,
+    alternateImageUrls,
+    debugImageUrl,
+    finalPrompt: prompt,
+    promptTemplate: toPromptTemplateRef(template),
+    stageDurations,
+  };
+};
+
+export interface RemoveObjectResult extends EditCompositeImageResult {
+  // Where the user marked the object and what the description model made of it.
+  removedObject: RemovalRecord;
+}
+
+/**
+ * Removes the object the user clicked or brushed over and fills in the background behind it.
+ * The scene is marked at the selection and described like a drop location, but the description
+ * model is asked what the marked object is; the image model then gets the clean scene and that description.
+ * @param selectionMask Black and white mask aligned with the scene, white where the user clicked or brushed.
+ * @param sceneImage The scene to edit.
+ * @param options The same overrides as `editCompositeImage`; the `identify` and `remove` parts of `promptTemplate` are used.
+ * @returns The edited scene and its alternatives. `debugImageUrl` is the marked scene the description model saw.
+ */
+export const removeObject = async (
+    selectionMask: File,
+    sceneImage: File,
+    options: EditCompositeImageOptions = {}
+): Promise<RemoveObjectResult> => {
+  console.log('Starting object removal...');
+  const provider = options.provider ?? getCompositingProvider();
+  const { signal } = options;
+  const template = options.promptTemplate ?? DEFAULT_PROMPT_TEMPLATE;
+
+  const { runStage, stageDurations, decodedBitmaps, releaseBitmaps } = createStageRunner(options);
+
+  // STEP 1: Find what the user marked, then prepare the scene and mask exactly as for a composite
+  console.log('Resizing scene image...');
+  const { prepared, selection } = await runStage('resizing', async () => {
+    const selection = await measureSelection({ mask: selectionMask });
+    if (!selection) {
+      throw new InvalidInputError('Click or brush over the object you want to remove first.');
+    }
+    const prepared = await prepareImages({ scene: sceneImage, products: [], mask: options.mask, targetDimension: MAX_DIMENSION })
+      .catch(error => {
+        throw new InvalidInputError('The scene image could not be read. Please upload it again.', { cause: error });
+      });
+    return { prepared, selection };
   });
+  const { originalWidth, originalHeight, sceneBitmap, maskBitmap, originalBitmap } = prepared;
+  decodedBitmaps.push(sceneBitmap, originalBitmap);
+  if (maskBitmap) decodedBitmaps.push(maskBitmap);
+  const resizedSceneImage = new File([prepared.scene], sceneImage.name, { type: 'image/jpeg' });
+  const resizedMask = prepared.mask && new File([prepared.mask], 'mask.jpeg', { type: 'image/jpeg' });
 
-  console.log('Received response.');
-  
-  const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-  if (imagePartFromResponse?.inlineData) {
-    const { mimeType, data } = imagePartFromResponse.inlineData;
-    console.log(`Received image data (${mimeType}), length:`, data.length);
-    const generatedSquareImageUrl = `data:${mimeType};base64,${data}`;
-    
-    console.log('Cropping generated image to original aspect ratio...');
-    const finalImageUrl = await cropToOriginalAspectRatio(
-        generatedSquareImageUrl,
+  // STEP 2: Mark the selection with a marker in its middle and a rectangle around it
+  console.log('Marking scene image for analysis...');
+  const { markedSceneImage, debugImageUrl } = await runStage('marking', async () => {
+    const markedImage = await markScene({
+        sceneBitmap,
+        markers: [{ position: selection.center, box: selection.box }],
         originalWidth,
         originalHeight,
-        MAX_DIMENSION
-    );
-    
-    return { finalImageUrl, debugImageUrl, finalPrompt: prompt };
-  }
+    });
+    const markedFile = new File([markedImage], `marked-${sceneImage.name}`, { type: 'image/jpeg' });
+    return { markedSceneImage: markedFile, debugImageUrl: await fileToDataUrl(markedFile) };
+  });
 
-  console.error("Model response did not contain an image part.", response);
-  throw new Error("The AI model did not return an image. Please try again.");
-};
\ No newline at end of file
+  // STEP 3: Ask the description model what the marked object is
+  console.log('Identifying the object to remove...');
+  const objectDescription = await runStage('describing', async () => {
+    const description = await withRetry('Object description', () => provider.describeLocation({
+      markedSceneImage,
+      template,
+      promptInput: { kind: 'identify', selectionBox: selection.box },
+      markerPosition: toPaddedPosition(selection.center, { originalWidth, originalHeight }),
+      signal,
+    }), signal);
+    if (!description.trim()) {
+      console.warn('The object description came back empty; using the marked area alone.');
+      return 'The object at the marked spot.';
+    }
+    console.log('Generated object description:', description);
+    return truncateText(description, PROMPT_TEXT_LIMITS.description);
+  });
+
+  // STEP 4: Ask for the removal on the CLEAN image
+  const promptInput: EditPromptInput = { kind: 'remove', objectDescription, selectionBox: selection.box };
+  const prompt = renderEditPrompt(template, promptInput, !!resizedMask);
+
+  const removeCandidate = (variant: number): Promise<string> =>
+    withRetry(`Removal candidate ${variant + 1}`, () => provider.editImage({
+      productImages: [],
+      sceneImage: resizedSceneImage,
+      mask: resizedMask,
+      template,
+      promptInput,
+      variant,
+      signal,
+    }), signal);
+
+  const squareImageUrls = await generateCandidates(runStage, options.candidateCount, removeCandidate, signal);
+
+  // STEP 5: Crop the candidates back to the scene's aspect ratio and original resolution
+  const imageUrls = await cropCandidates(runStage, squareImageUrls, prepared);
+  releaseBitmaps();
+
+  const [finalImageUrl, ...alternateImageUrls] = imageUrls;
+  return {
+    finalImageUrl,
+    alternateImageUrls,
+    debugImageUrl,
+    finalPrompt: prompt,
+    promptTemplate: toPromptTemplateRef(template),
+    stageDurations,
+    removedObject: { relativePosition: selection.center, targetBox: selection.box, objectDescription },
+  };
+};
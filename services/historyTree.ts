@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HistoryEntry, PlacementRecord } from '../components/types';
+
+// The history is a tree stored as a flat list: every entry points at the entry it was generated from.
+// Children always come after their parent, so a higher index means a newer scene.
+
+export const getChildIndices = (history: HistoryEntry[], index: number): number[] =>
+    history.reduce<number[]>((children, entry, childIndex) => {
+        if (entry.parentIndex === index) children.push(childIndex);
+        return children;
+    }, []);
+
+// Returns true if `ancestor` is `index` itself or lies on the path from the root to it.
+export const isAncestor = (history: HistoryEntry[], ancestor: number, index: number): boolean => {
+    let current: number | null = index;
+    while (current !== null) {
+        if (current === ancestor) return true;
+        current = history[current]?.parentIndex ?? null;
+    }
+    return false;
+};
+
+// Follows the newest child from `index` down to a leaf. This is the branch redo walks along by default.
+export const findBranchTip = (history: HistoryEntry[], index: number): number => {
+    let current = index;
+    let children = getChildIndices(history, current);
+    while (children.length > 0) {
+        current = children[children.length - 1];
+        children = getChildIndices(history, current);
+    }
+    return current;
+};
+
+// The child of `index` that leads towards `tip`, or null when `index` is the end of the active branch.
+export const getRedoTarget = (history: HistoryEntry[], index: number, tip: number): number | null => {
+    if (index === tip || !isAncestor(history, index, tip)) return null;
+    let current = tip;
+    while (history[current].parentIndex !== index) {
+        current = history[current].parentIndex as number;
+    }
+    return current;
+};
+
+// Every product placed on the way from the original scene to `index`. A product placed more than once
+// is listed once, with its latest placement, so the order is the order they were last placed in.
+export const getScenePlacements = (history: HistoryEntry[], index: number): PlacementRecord[] => {
+    const placements = new Map<string, PlacementRecord>();
+    const path: HistoryEntry[] = [];
+    for (let current: number | null = index; current !== null; current = history[current]?.parentIndex ?? null) {
+        if (history[current]) path.unshift(history[current]);
+    }
+    path.forEach(entry => entry.placements.forEach(placement => {
+        placements.delete(placement.productName);
+        placements.set(placement.productName, placement);
+    }));
+    return [...placements.values()];
+};
+
+// Entries saved before the history became a tree were a straight line.
+export const withLinearParents = (history: HistoryEntry[]): HistoryEntry[] =>
+    history.map((entry, index) => ({
+        ...entry,
+        parentIndex: entry.parentIndex === undefined ? (index > 0 ? index - 1 : null) : entry.parentIndex,
+    }));
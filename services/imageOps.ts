@@ -0,0 +1,583 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PlacementBox } from '../components/types';
+
+// The canvas work of the compositing pipeline. Everything here sticks to ImageBitmap and OffscreenCanvas,
+// so it runs unchanged inside the image pipeline worker and, as a fallback, on the main thread.
+
+const JPEG_QUALITY = 0.95;
+// Pixels whose largest channel difference from the scene exceeds this count as changed by the model.
+const CHANGE_THRESHOLD = 40;
+// Cutouts are kept at most at this resolution; the compose step never sends more than 1024 pixels anyway.
+const MAX_CUTOUT_DIMENSION = 2048;
+// Segmentation masks are probabilities. Values are ramped from transparent to opaque between these two.
+const SEGMENTATION_EDGE_LOW = 96;
+const SEGMENTATION_EDGE_HIGH = 160;
+
+// The plain colour a cut-out product is flattened onto before it is sent to the model.
+export type CutoutBackground = 'white' | 'black';
+
+// A marker to draw on the analysis image. Positions and boxes are relative to the image content (0-100).
+export interface ImageMarker {
+    position: { xPercent: number; yPercent: number; };
+    scale?: number;
+    box?: PlacementBox;
+}
+
+export interface PrepareImagesRequest {
+  scene: Blob;
+  products: Blob[];
+  mask?: Blob;
+  // Side of the padded square every input is fitted into.
+  targetDimension: number;
+}
+
+export interface PreparedImages {
+  originalWidth: number;
+  originalHeight: number;
+  // Padded square JPEGs, ready to hand to the provider.
+  scene: Blob;
+  products: Blob[];
+  mask?: Blob;
+  // The colour each cut-out product was flattened onto; null for photos, which keep their black padding.
+  productBackgrounds: (CutoutBackground | null)[];
+  // The padded scene and mask, kept decoded so marking and blending do not decode them again.
+  sceneBitmap: ImageBitmap;
+  maskBitmap?: ImageBitmap;
+  // The scene at its full original resolution, which the result is composited back into.
+  originalBitmap: ImageBitmap;
+}
+
+export interface MarkSceneRequest {
+  sceneBitmap: ImageBitmap;
+  markers: ImageMarker[];
+  originalWidth: number;
+  originalHeight: number;
+}
+
+export interface FinishCandidateRequest {
+  // Data URL of the padded square image returned by the provider.
+  generatedImageUrl: string;
+  originalWidth: number;
+  originalHeight: number;
+  targetDimension: number;
+  sceneBitmap: ImageBitmap;
+  originalBitmap: ImageBitmap;
+  // When given, the generated pixels are used inside the mask only; otherwise wherever the model changed the scene.
+  maskBitmap?: ImageBitmap;
+}
+
+export interface FitImageRequest {
+  image: Blob;
+  // Longest side of the result; smaller images are only re-encoded.
+  maxDimension: number;
+}
+
+export interface CreateCutoutRequest {
+  // The uploaded product photo.
+  image: Blob;
+  // Greyscale mask, bright where the product is.
+  mask: Blob;
+  // Where a segmentation mask sits on the photo (0-100 on both axes). Without it the mask covers the whole photo.
+  box?: PlacementBox;
+}
+
+export interface ProductCutout {
+  // The product on a transparent background, cropped to its outline.
+  cutout: Blob;
+  // The mask laid over the whole photo, white where the product is. This is what the refine brush edits.
+  mask: Blob;
+}
+
+export interface MeasureSelectionRequest {
+  // Black and white mask aligned with the scene, white where the user clicked or brushed.
+  mask: Blob;
+}
+
+// Where the user clicked or brushed over the scene, relative to the image content (0-100).
+export interface SelectionBounds {
+  // The middle of the painted pixels; for a single click, the click itself.
+  center: { xPercent: number; yPercent: number; };
+  box: PlacementBox;
+}
+
+export type ImageOperation =
+  | { op: 'prepare'; payload: PrepareImagesRequest }
+  | { op: 'mark'; payload: MarkSceneRequest }
+  | { op: 'finish'; payload: FinishCandidateRequest }
+  | { op: 'fit'; payload: FitImageRequest }
+  | { op: 'cutout'; payload: CreateCutoutRequest }
+  | { op: 'measure'; payload: MeasureSelectionRequest };
+
+// Helper to find where content of the given aspect ratio sits inside a padded square
+const getContentRect = (originalWidth: number, originalHeight: number, targetDimension: number) => {
+    const aspectRatio = originalWidth / originalHeight;
+    let width, height;
+    if (aspectRatio > 1) { // Landscape
+        width = targetDimension;
+        height = targetDimension / aspectRatio;
+    } else { // Portrait or square
+        height = targetDimension;
+        width = targetDimension * aspectRatio;
+    }
+    return { x: (targetDimension - width) / 2, y: (targetDimension - height) / 2, width, height };
+};
+
+const getContext = (canvas: OffscreenCanvas, purpose: string): OffscreenCanvasRenderingContext2D => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error(`Could not get canvas context for ${purpose}.`);
+    }
+    return ctx;
+};
+
+const toJpeg = (canvas: OffscreenCanvas): Promise<Blob> =>
+    canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+
+// Helper to convert a Blob to a data URL string
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(blob);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+};
+
+// Fits an image into a black square without cropping, which gives the model a consistent input size.
+// Black also stands in for "keep" when the image is a mask.
+const drawPadded = (bitmap: ImageBitmap, targetDimension: number, fill: string = 'black'): OffscreenCanvas => {
+    const canvas = new OffscreenCanvas(targetDimension, targetDimension);
+    const ctx = getContext(canvas, 'resizing');
+    ctx.fillStyle = fill;
+    ctx.fillRect(0, 0, targetDimension, targetDimension);
+    const { x, y, width, height } = getContentRect(bitmap.width, bitmap.height, targetDimension);
+    ctx.drawImage(bitmap, x, y, width, height);
+    return canvas;
+};
+
+// Helper to decode an image once and return its padded square as a JPEG, optionally keeping
+// the padded square and the decoded source as bitmaps
+const padImage = async (blob: Blob, targetDimension: number, keep: { padded?: boolean; source?: boolean } = {}) => {
+    const source = await createImageBitmap(blob);
+    const canvas = drawPadded(source, targetDimension);
+    const jpeg = await toJpeg(canvas);
+    if (!keep.source) source.close();
+    return {
+        jpeg,
+        padded: keep.padded ? canvas.transferToImageBitmap() : undefined,
+        source: keep.source ? source : undefined,
+    };
+};
+
+// Helper to pick the plain background for a transparent product: white behind dark products, black behind light ones.
+// Returns null when the image has no transparency, i.e. it is a photo rather than a cutout.
+const pickCutoutBackground = (bitmap: ImageBitmap): CutoutBackground | null => {
+    // A thumbnail is plenty to judge transparency and brightness.
+    const ratio = Math.min(1, 256 / Math.max(bitmap.width, bitmap.height));
+    const canvas = new OffscreenCanvas(Math.max(1, Math.round(bitmap.width * ratio)), Math.max(1, Math.round(bitmap.height * ratio)));
+    const ctx = getContext(canvas, 'cutout analysis');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let transparentPixels = 0;
+    let luminance = 0;
+    let opaquePixels = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] < 250) transparentPixels++;
+        if (data[i + 3] > 128) {
+            luminance += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+            opaquePixels++;
+        }
+    }
+    if (transparentPixels === 0) return null;
+    return opaquePixels > 0 && luminance / opaquePixels > 150 ? 'black' : 'white';
+};
+
+// Helper to pad a product image. Photos get the usual black padding; a cutout is flattened onto a
+// contrasting plain colour so a dark product never disappears into the padding.
+const padProduct = async (blob: Blob, targetDimension: number) => {
+    const source = await createImageBitmap(blob);
+    const background = pickCutoutBackground(source);
+    const canvas = drawPadded(source, targetDimension, background ?? 'black');
+    source.close();
+    return { jpeg: await toJpeg(canvas), background };
+};
+
+// Helper to measure a global colour shift between two images as the per-channel median difference.
+// Re-rendering models tend to tint the whole picture slightly; the median ignores the region that really changed.
+const measureColorShift = (generated: Uint8ClampedArray, scene: Uint8ClampedArray): [number, number, number] => {
+    const histograms = [new Uint32Array(511), new Uint32Array(511), new Uint32Array(511)];
+    for (let i = 0; i < generated.length; i += 4) {
+        histograms[0][generated[i] - scene[i] + 255]++;
+        histograms[1][generated[i + 1] - scene[i + 1] + 255]++;
+        histograms[2][generated[i + 2] - scene[i + 2] + 255]++;
+    }
+    const half = generated.length / 8;
+    return histograms.map(histogram => {
+        let count = 0;
+        for (let difference = 0; difference < histogram.length; difference++) {
+            count += histogram[difference];
+            if (count >= half) return difference - 255;
+        }
+        return 0;
+    }) as [number, number, number];
+};
+
+// Helper to blur a canvas' alpha channel and push it through a curve, which cleans up or grows a mask
+const reshapeAlpha = (source: OffscreenCanvas, radius: number, curve: (alpha: number) => number): OffscreenCanvas => {
+    const target = new OffscreenCanvas(source.width, source.height);
+    const ctx = getContext(target, 'mask shaping');
+    ctx.filter = `blur(${radius}px)`;
+    ctx.drawImage(source, 0, 0);
+    ctx.filter = 'none';
+    const imageData = ctx.getImageData(0, 0, target.width, target.height);
+    for (let i = 3; i < imageData.data.length; i += 4) {
+        imageData.data[i] = curve(imageData.data[i]);
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return target;
+};
+
+/**
+ * Decodes the scene, products and mask once each and fits them into padded squares.
+ * @returns The padded JPEGs for the provider plus the decoded scene (padded and at full resolution)
+ * and mask for the later steps.
+ */
+export const prepareImages = async ({ scene, products, mask, targetDimension }: PrepareImagesRequest): Promise<PreparedImages> => {
+    const [paddedScene, paddedProducts, paddedMask] = await Promise.all([
+        padImage(scene, targetDimension, { padded: true, source: true }),
+        Promise.all(products.map(product => padProduct(product, targetDimension))),
+        mask ? padImage(mask, targetDimension, { padded: true }) : Promise.resolve(undefined),
+    ]);
+    const originalBitmap = paddedScene.source as ImageBitmap;
+    return {
+        originalWidth: originalBitmap.width,
+        originalHeight: originalBitmap.height,
+        scene: paddedScene.jpeg,
+        products: paddedProducts.map(product => product.jpeg),
+        mask: paddedMask?.jpeg,
+        productBackgrounds: paddedProducts.map(product => product.background),
+        sceneBitmap: paddedScene.padded as ImageBitmap,
+        maskBitmap: paddedMask?.padded,
+        originalBitmap,
+    };
+};
+
+/**
+ * Draws the placement markers on the padded scene for the description model and the debug view.
+ * With more than one marker they are numbered 1..n so each can be referred to in prompts.
+ * A target box is outlined as a red rectangle; otherwise a scale other than 1 is drawn as a
+ * dashed ring around the marker, labelled with the scale factor.
+ */
+export const markScene = async ({ sceneBitmap, markers, originalWidth, originalHeight }: MarkSceneRequest): Promise<Blob> => {
+    const canvas = new OffscreenCanvas(sceneBitmap.width, sceneBitmap.height);
+    const ctx = getContext(canvas, 'marking');
+    ctx.drawImage(sceneBitmap, 0, 0);
+
+    // Translate the content-relative percentages to the padded canvas coordinates.
+    const content = getContentRect(originalWidth, originalHeight, canvas.width);
+
+    const isNumbered = markers.length > 1;
+    // Make radius proportional to image size, but with a minimum. Numbered markers need room for the label.
+    const markerRadius = Math.max(5, Math.min(canvas.width, canvas.height) * (isNumbered ? 0.025 : 0.015));
+
+    markers.forEach(({ position, scale = 1, box }, index) => {
+        const markerX = content.x + (position.xPercent / 100) * content.width;
+        const markerY = content.y + (position.yPercent / 100) * content.height;
+
+        if (box) {
+            // Outline the target extent, white underneath so it stays visible on red surfaces
+            const boxX = content.x + (box.xPercent / 100) * content.width;
+            const boxY = content.y + (box.yPercent / 100) * content.height;
+            const boxWidth = (box.widthPercent / 100) * content.width;
+            const boxHeight = (box.heightPercent / 100) * content.height;
+            ctx.lineWidth = markerRadius * 0.5;
+            ctx.strokeStyle = 'white';
+            ctx.strokeRect(boxX, boxY, boxWidth, boxHeight);
+            ctx.lineWidth = markerRadius * 0.25;
+            ctx.strokeStyle = 'red';
+            ctx.strokeRect(boxX, boxY, boxWidth, boxHeight);
+        }
+
+        // Draw the marker (red circle with white outline)
+        ctx.beginPath();
+        ctx.arc(markerX, markerY, markerRadius, 0, 2 * Math.PI, false);
+        ctx.fillStyle = 'red';
+        ctx.fill();
+        ctx.lineWidth = markerRadius * 0.2;
+        ctx.strokeStyle = 'white';
+        ctx.stroke();
+
+        if (!box && scale !== 1) {
+            const ringRadius = markerRadius * 3 * scale;
+            ctx.save();
+            ctx.beginPath();
+            ctx.setLineDash([markerRadius * 0.6, markerRadius * 0.4]);
+            ctx.arc(markerX, markerY, ringRadius, 0, 2 * Math.PI, false);
+            ctx.lineWidth = markerRadius * 0.25;
+            ctx.strokeStyle = 'red';
+            ctx.stroke();
+            ctx.restore();
+
+            ctx.font = `bold ${Math.round(markerRadius)}px sans-serif`;
+            ctx.textAlign = 'left';
+            ctx.textBaseline = 'bottom';
+            ctx.lineWidth = markerRadius * 0.3;
+            ctx.strokeStyle = 'white';
+            const label = `×${scale.toFixed(2)}`;
+            ctx.strokeText(label, markerX + ringRadius * 0.75, markerY - ringRadius * 0.75);
+            ctx.fillStyle = 'red';
+            ctx.fillText(label, markerX + ringRadius * 0.75, markerY - ringRadius * 0.75);
+        }
+
+        if (isNumbered) {
+            ctx.fillStyle = 'white';
+            ctx.font = `bold ${Math.round(markerRadius * 1.2)}px sans-serif`;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(String(index + 1), markerX, markerY);
+        }
+    });
+
+    return toJpeg(canvas);
+};
+
+/**
+ * Turns a generated padded square into the final scene at the original's full resolution. Only the region
+ * the model was allowed to change (the mask) or, without a mask, the region it actually changed is taken
+ * from the upscaled result; everything else stays the untouched original. Edges are feathered to hide seams.
+ * @returns The finished candidate as a lossless PNG data URL, so repeated placements do not degrade the scene.
+ */
+export const finishCandidate = async ({
+    generatedImageUrl, originalWidth, originalHeight, targetDimension, sceneBitmap, originalBitmap, maskBitmap,
+}: FinishCandidateRequest): Promise<string> => {
+    const generated = await createImageBitmap(await (await fetch(generatedImageUrl)).blob());
+    const content = getContentRect(originalWidth, originalHeight, targetDimension);
+
+    // Draws the content area of a padded square, whatever resolution the square came back in
+    const drawContent = (ctx: OffscreenCanvasRenderingContext2D, bitmap: ImageBitmap, width: number, height: number) => {
+        const ratio = bitmap.width / targetDimension;
+        ctx.drawImage(bitmap, content.x * ratio, content.y * ratio, content.width * ratio, content.height * ratio, 0, 0, width, height);
+    };
+
+    // STEP 1: Compare the result with the input scene at the model's resolution
+    const width = Math.round(content.width);
+    const height = Math.round(content.height);
+    const longestSide = Math.max(width, height);
+    const corrected = new OffscreenCanvas(width, height);
+    const correctedCtx = getContext(corrected, 'colour correction');
+    drawContent(correctedCtx, sceneBitmap, width, height);
+    const sceneData = correctedCtx.getImageData(0, 0, width, height);
+    correctedCtx.clearRect(0, 0, width, height);
+    drawContent(correctedCtx, generated, width, height);
+    generated.close();
+    const generatedData = correctedCtx.getImageData(0, 0, width, height);
+
+    // Undo the model's global colour shift, so the untouched areas compare equal and the pasted region matches the photo
+    const shift = measureColorShift(generatedData.data, sceneData.data);
+    for (let i = 0; i < generatedData.data.length; i += 4) {
+        generatedData.data[i] -= shift[0];
+        generatedData.data[i + 1] -= shift[1];
+        generatedData.data[i + 2] -= shift[2];
+    }
+    correctedCtx.putImageData(generatedData, 0, 0);
+
+    // STEP 2: Find the region to take from the generated image
+    let region = new OffscreenCanvas(width, height);
+    const regionCtx = getContext(region, 'mask blending');
+    let regionData: ImageData;
+    if (maskBitmap) {
+        drawContent(regionCtx, maskBitmap, width, height);
+        regionData = regionCtx.getImageData(0, 0, width, height);
+        // The mask's brightness becomes the alpha
+        for (let i = 0; i < regionData.data.length; i += 4) {
+            regionData.data[i + 3] = regionData.data[i];
+        }
+    } else {
+        regionData = regionCtx.createImageData(width, height);
+        for (let i = 0; i < regionData.data.length; i += 4) {
+            const difference = Math.max(
+                Math.abs(generatedData.data[i] - sceneData.data[i]),
+                Math.abs(generatedData.data[i + 1] - sceneData.data[i + 1]),
+                Math.abs(generatedData.data[i + 2] - sceneData.data[i + 2]),
+            );
+            regionData.data[i + 3] = difference > CHANGE_THRESHOLD ? 255 : 0;
+        }
+    }
+    regionCtx.putImageData(regionData, 0, 0);
+    if (!maskBitmap) {
+        // Drop isolated compression noise, then grow the changed area so shadows and soft edges come along
+        region = reshapeAlpha(region, Math.max(1, Math.round(longestSide * 0.003)), alpha => (alpha > 96 ? 255 : 0));
+        region = reshapeAlpha(region, Math.max(2, Math.round(longestSide * 0.01)), alpha => Math.min(255, alpha * 4));
+    }
+
+    // STEP 3: Paste the upscaled region over the full resolution original
+    const canvas = new OffscreenCanvas(originalWidth, originalHeight);
+    const ctx = getContext(canvas, 'compositing');
+    ctx.drawImage(originalBitmap, 0, 0);
+
+    const layer = new OffscreenCanvas(originalWidth, originalHeight);
+    const layerCtx = getContext(layer, 'compositing');
+    layerCtx.filter = `blur(${Math.max(1, Math.round(Math.max(originalWidth, originalHeight) * 0.004))}px)`;
+    layerCtx.drawImage(region, 0, 0, originalWidth, originalHeight);
+    layerCtx.filter = 'none';
+    layerCtx.globalCompositeOperation = 'source-in';
+    layerCtx.imageSmoothingQuality = 'high';
+    layerCtx.drawImage(corrected, 0, 0, originalWidth, originalHeight);
+
+    ctx.drawImage(layer, 0, 0);
+    return blobToDataUrl(await canvas.convertToBlob({ type: 'image/png' }));
+};
+
+/**
+ * Scales an image down so its longest side is at most `maxDimension`, keeping its aspect ratio.
+ * @returns The image as a JPEG.
+ */
+export const fitImage = async ({ image, maxDimension }: FitImageRequest): Promise<Blob> => {
+    const source = await createImageBitmap(image);
+    const ratio = Math.min(1, maxDimension / Math.max(source.width, source.height));
+    const canvas = new OffscreenCanvas(Math.round(source.width * ratio), Math.round(source.height * ratio));
+    const ctx = getContext(canvas, 'resizing');
+    // Transparent areas would turn black in the JPEG.
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    source.close();
+    return toJpeg(canvas);
+};
+
+/**
+ * Cuts a product out of its photo with a mask. A segmentation mask (given with its `box`) is a
+ * probability map and is ramped to a soft but decisive edge; a mask without a box is one edited
+ * with the refine brush and is used as it is.
+ * @returns The cutout cropped to the product, plus the mask over the whole photo for later refinement.
+ */
+export const createCutout = async ({ image, mask, box }: CreateCutoutRequest): Promise<ProductCutout> => {
+    const [source, maskSource] = await Promise.all([createImageBitmap(image), createImageBitmap(mask)]);
+    const ratio = Math.min(1, MAX_CUTOUT_DIMENSION / Math.max(source.width, source.height));
+    const width = Math.round(source.width * ratio);
+    const height = Math.round(source.height * ratio);
+
+    // STEP 1: Lay the mask over the whole photo
+    const maskCanvas = new OffscreenCanvas(width, height);
+    const maskCtx = getContext(maskCanvas, 'cutout');
+    maskCtx.fillStyle = 'black';
+    maskCtx.fillRect(0, 0, width, height);
+    maskCtx.imageSmoothingQuality = 'high';
+    const area = box
+        ? { x: (box.xPercent / 100) * width, y: (box.yPercent / 100) * height, width: (box.widthPercent / 100) * width, height: (box.heightPercent / 100) * height }
+        : { x: 0, y: 0, width, height };
+    maskCtx.drawImage(maskSource, area.x, area.y, area.width, area.height);
+    maskSource.close();
+    const maskData = maskCtx.getImageData(0, 0, width, height);
+    if (box) {
+        const range = SEGMENTATION_EDGE_HIGH - SEGMENTATION_EDGE_LOW;
+        for (let i = 0; i < maskData.data.length; i += 4) {
+            const value = Math.max(0, Math.min(255, ((maskData.data[i] - SEGMENTATION_EDGE_LOW) * 255) / range));
+            maskData.data[i] = value;
+            maskData.data[i + 1] = value;
+            maskData.data[i + 2] = value;
+        }
+        maskCtx.putImageData(maskData, 0, 0);
+    }
+
+    // STEP 2: Use the mask as the photo's alpha and find the product's bounds
+    const photo = new OffscreenCanvas(width, height);
+    const photoCtx = getContext(photo, 'cutout');
+    photoCtx.drawImage(source, 0, 0, width, height);
+    source.close();
+    const photoData = photoCtx.getImageData(0, 0, width, height);
+    let left = width, top = height, right = -1, bottom = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const alpha = Math.min(photoData.data[i + 3], maskData.data[i]);
+            photoData.data[i + 3] = alpha;
+            if (alpha > 0) {
+                left = Math.min(left, x);
+                right = Math.max(right, x);
+                top = Math.min(top, y);
+                bottom = Math.max(bottom, y);
+            }
+        }
+    }
+    if (right < 0) {
+        throw new Error('The mask does not cover any part of the product.');
+    }
+    photoCtx.putImageData(photoData, 0, 0);
+
+    // STEP 3: Crop the cutout to the product so it fills the card and the model's input
+    const cutout = new OffscreenCanvas(right - left + 1, bottom - top + 1);
+    getContext(cutout, 'cutout').drawImage(photo, -left, -top);
+    const [cutoutBlob, maskBlob] = await Promise.all([
+        cutout.convertToBlob({ type: 'image/png' }),
+        maskCanvas.convertToBlob({ type: 'image/png' }),
+    ]);
+    return { cutout: cutoutBlob, mask: maskBlob };
+};
+
+/**
+ * Finds the painted part of a selection mask.
+ * @returns Its centre and bounding box, or null when nothing was painted.
+ */
+export const measureSelection = async ({ mask }: MeasureSelectionRequest): Promise<SelectionBounds | null> => {
+    const source = await createImageBitmap(mask);
+    const { width, height } = source;
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = getContext(canvas, 'marking');
+    ctx.drawImage(source, 0, 0);
+    source.close();
+    const { data } = ctx.getImageData(0, 0, width, height);
+    let left = width, top = height, right = -1, bottom = -1;
+    let sumX = 0, sumY = 0, count = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4] < 128) continue;
+            left = Math.min(left, x);
+            right = Math.max(right, x);
+            top = Math.min(top, y);
+            bottom = Math.max(bottom, y);
+            sumX += x;
+            sumY += y;
+            count++;
+        }
+    }
+    if (count === 0) return null;
+    return {
+        center: { xPercent: ((sumX / count + 0.5) / width) * 100, yPercent: ((sumY / count + 0.5) / height) * 100 },
+        box: {
+            xPercent: (left / width) * 100,
+            yPercent: (top / height) * 100,
+            widthPercent: ((right - left + 1) / width) * 100,
+            heightPercent: ((bottom - top + 1) / height) * 100,
+        },
+    };
+};
+
+/**
+ * Runs one operation and lists the objects that can be transferred (rather than copied) with its result.
+ */
+export const runImageOperation = async (operation: ImageOperation): Promise<{ result: unknown; transfer: Transferable[] }> => {
+    switch (operation.op) {
+        case 'prepare': {
+            const prepared = await prepareImages(operation.payload);
+            const transfer: Transferable[] = [prepared.sceneBitmap, prepared.originalBitmap];
+            if (prepared.maskBitmap) transfer.push(prepared.maskBitmap);
+            return { result: prepared, transfer };
+        }
+        case 'mark':
+            return { result: await markScene(operation.payload), transfer: [] };
+        case 'finish':
+            return { result: await finishCandidate(operation.payload), transfer: [] };
+        case 'fit':
+            return { result: await fitImage(operation.payload), transfer: [] };
+        case 'cutout':
+            return { result: await createCutout(operation.payload), transfer: [] };
+        case 'measure':
+            return { result: await measureSelection(operation.payload), transfer: [] };
+    }
+};
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+    CreateCutoutRequest, FinishCandidateRequest, FitImageRequest, ImageOperation, MarkSceneRequest, MeasureSelectionRequest,
+    PrepareImagesRequest, PreparedImages, ProductCutout, SelectionBounds, runImageOperation,
+} from './imageOps';
+
+type PendingOperation = {
+  operation: ImageOperation;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+};
+
+// The worker is created on first use; null means it is unavailable and operations run on the main thread.
+let worker: Worker | null | undefined;
+let nextOperationId = 1;
+const pendingOperations = new Map<number, PendingOperation>();
+
+const runOnMainThread = async (operation: ImageOperation): Promise<unknown> =>
+    (await runImageOperation(operation)).result;
+
+// Helper to give up on the worker, finishing whatever it still owed on the main thread
+const abandonWorker = (reason: unknown) => {
+    console.warn('The image pipeline worker failed; continuing on the main thread.', reason);
+    worker?.terminate();
+    worker = null;
+    const abandoned = [...pendingOperations.values()];
+    pendingOperations.clear();
+    abandoned.forEach(({ operation, resolve, reject }) => runOnMainThread(operation).then(resolve, reject));
+};
+
+const getWorker = (): Worker | null => {
+    if (worker === undefined) {
+        try {
+            worker = new Worker(new URL('./imagePipeline.worker.ts', import.meta.url), { type: 'module' });
+            worker.onmessage = (event: MessageEvent<{ id: number; result?: unknown; error?: string }>) => {
+                const { id, result, error } = event.data;
+                const pending = pendingOperations.get(id);
+                if (!pending) return;
+                pendingOperations.delete(id);
+                if (error !== undefined) {
+                    pending.reject(new Error(error));
+                } else {
+                    pending.resolve(result);
+                }
+            };
+            // Only fires when the worker itself breaks (e.g. it could not be loaded); operation errors arrive as messages.
+            worker.onerror = (event) => abandonWorker(event.message);
+        } catch (error) {
+            abandonWorker(error);
+        }
+    }
+    return worker ?? null;
+};
+
+const runOperation = (operation: ImageOperation): Promise<unknown> => {
+    const activeWorker = getWorker();
+    if (!activeWorker) {
+        return runOnMainThread(operation);
+    }
+    return new Promise((resolve, reject) => {
+        const id = nextOperationId++;
+        pendingOperations.set(id, { operation, resolve, reject });
+        activeWorker.postMessage({ id, ...operation });
+    });
+};
+
+// Decodes the scene, products and mask once each and fits them into padded squares.
+export const prepareImages = (payload: PrepareImagesRequest): Promise<PreparedImages> =>
+    runOperation({ op: 'prepare', payload }) as Promise<PreparedImages>;
+
+// Draws the placement markers on the padded scene.
+export const markScene = (payload: MarkSceneRequest): Promise<Blob> =>
+    runOperation({ op: 'mark', payload }) as Promise<Blob>;
+
+// Crops a generated padded square back to the scene's aspect ratio, blending with the mask when given.
+export const finishCandidate = (payload: FinishCandidateRequest): Promise<string> =>
+    runOperation({ op: 'finish', payload }) as Promise<string>;
+
+// Scales an image down to fit `maxDimension`, keeping its aspect ratio.
+export const fitImage = (payload: FitImageRequest): Promise<Blob> =>
+    runOperation({ op: 'fit', payload }) as Promise<Blob>;
+
+// Cuts a product out of its photo with a segmentation or refined mask.
+export const createCutout = (payload: CreateCutoutRequest): Promise<ProductCutout> =>
+    runOperation({ op: 'cutout', payload }) as Promise<ProductCutout>;
+
+// Finds the centre and bounding box of what the user brushed over the scene.
+export const measureSelection = (payload: MeasureSelectionRequest): Promise<SelectionBounds | null> =>
+    runOperation({ op: 'measure', payload }) as Promise<SelectionBounds | null>;
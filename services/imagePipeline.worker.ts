@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageOperation, runImageOperation } from './imageOps';
+
+// Runs the canvas work of the compositing pipeline off the main thread, so decoding and drawing
+// large photos does not freeze the drag orb and the spinner.
+self.onmessage = async (event: MessageEvent<ImageOperation & { id: number }>) => {
+    const { id, ...operation } = event.data;
+    try {
+        const { result, transfer } = await runImageOperation(operation as ImageOperation);
+        self.postMessage({ id, result }, { transfer });
+    } catch (error) {
+        self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CompositingProvider } from './compositingProvider';
+import { CutoutBackground } from './imageOps';
+
+// Size of the pasted product relative to the scene's longest side.
+const PRODUCT_SCALE = 0.25;
+// How far (in percent of the scene) each further candidate is nudged so the candidates differ.
+const VARIANT_OFFSET = 1.5;
+// Pixels this close to the padding colour on every channel are treated as padding: the black padding
+// added around photos, or the plain colour a cutout was flattened onto.
+const PADDING_THRESHOLD = 12;
+// Pixels this close to the photo's border colour on every channel count as backdrop when segmenting.
+const BACKDROP_TOLERANCE = 40;
+
+const PADDING_COLORS: Record<CutoutBackground, number> = { black: 0, white: 255 };
+
+// Helper to load a File into an HTMLImageElement
+const loadImage = (file: File): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = (err) => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Image load error: ${err}`));
+        };
+        img.src = url;
+    });
+};
+
+// Helper to turn the padding of a product image into transparency so only the product is pasted.
+const removePadding = (img: HTMLImageElement, background: CutoutBackground = 'black'): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the product cutout.');
+    }
+    ctx.drawImage(img, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { data } = imageData;
+    const padding = PADDING_COLORS[background];
+    for (let i = 0; i < data.length; i += 4) {
+        if (Math.abs(data[i] - padding) < PADDING_THRESHOLD && Math.abs(data[i + 1] - padding) < PADDING_THRESHOLD && Math.abs(data[i + 2] - padding) < PADDING_THRESHOLD) {
+            data[i + 3] = 0;
+        }
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+};
+
+// Helper to find a product shot on a plain backdrop: everything connected to the border that has
+// roughly the border's average colour is backdrop. Lifestyle photos need the real model.
+const findBackdrop = (data: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+    const border: number[] = [];
+    for (let x = 0; x < width; x++) border.push(x, (height - 1) * width + x);
+    for (let y = 1; y < height - 1; y++) border.push(y * width, y * width + width - 1);
+    const backdrop = [0, 1, 2].map(channel => border.reduce((sum, pixel) => sum + data[pixel * 4 + channel], 0) / border.length);
+    const isBackdropColor = (pixel: number) => [0, 1, 2].every(channel => Math.abs(data[pixel * 4 + channel] - backdrop[channel]) < BACKDROP_TOLERANCE);
+
+    const isBackdrop = new Uint8Array(width * height);
+    const stack = border.filter(isBackdropColor);
+    stack.forEach(pixel => { isBackdrop[pixel] = 1; });
+    while (stack.length > 0) {
+        const pixel = stack.pop()!;
+        const x = pixel % width;
+        const neighbours = [x > 0 ? pixel - 1 : -1, x < width - 1 ? pixel + 1 : -1, pixel - width, pixel + width];
+        for (const neighbour of neighbours) {
+            if (neighbour >= 0 && neighbour < isBackdrop.length && !isBackdrop[neighbour] && isBackdropColor(neighbour)) {
+                isBackdrop[neighbour] = 1;
+                stack.push(neighbour);
+            }
+        }
+    }
+    return isBackdrop;
+};
+
+const describeHorizontal = (xPercent: number) =>
+    xPercent < 33 ? 'left' : xPercent > 66 ? 'right' : 'horizontal center';
+
+const describeVertical = (yPercent: number) =>
+    yPercent < 33 ? 'upper' : yPercent > 66 ? 'lower' : 'middle';
+
+/**
+ * Creates a deterministic provider that needs no network access. It returns a canned
+ * location description, pastes each product onto the scene at its requested position,
+ * returns follow-up edits unchanged and segments products shot on a plain backdrop, which
+ * is enough to exercise the upload → drop → history → debug flow offline.
+ */
+export const createLocalProvider = (): CompositingProvider => ({
+  name: 'local',
+
+  describeLocation: async ({ markerPosition, signal }) => {
+    signal?.throwIfAborted();
+    const { xPercent, yPercent } = markerPosition;
+    return `The product location is in the ${describeVertical(yPercent)} ${describeHorizontal(xPercent)} part of the scene. ` +
+        `The product location is about ${Math.round(xPercent)}% from the left and ${Math.round(yPercent)}% from the top of the image.`;
+  },
+
+  composeImage: async ({ products, sceneImage, variant, signal }) => {
+    signal?.throwIfAborted();
+    const [sceneImg, ...productImgs] = await Promise.all([
+        loadImage(sceneImage),
+        ...products.map(product => loadImage(product.image)),
+    ]);
+    signal?.throwIfAborted();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = sceneImg.width;
+    canvas.height = sceneImg.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for local compositing.');
+    }
+    ctx.drawImage(sceneImg, 0, 0);
+
+    const productSize = Math.max(canvas.width, canvas.height) * PRODUCT_SCALE;
+
+    products.forEach(({ position, rotation, scale, box, background }, index) => {
+        // A drawn box decides the size on its own; the product is fitted inside it.
+        const size = box
+            ? Math.min(box.widthPercent / 100 * canvas.width, box.heightPercent / 100 * canvas.height)
+            : productSize * scale;
+        // Deterministic per-candidate nudge: down, left, up, right, ...
+        const angle = (variant * Math.PI) / 2;
+        const nudge = variant > 0 ? VARIANT_OFFSET * Math.ceil(variant / 4) : 0;
+        const centerX = ((position.xPercent + Math.cos(angle) * nudge) / 100) * canvas.width;
+        const centerY = ((position.yPercent + Math.sin(angle) * nudge) / 100) * canvas.height;
+
+        ctx.save();
+        ctx.translate(centerX, centerY);
+        ctx.rotate((rotation * Math.PI) / 180);
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
+        ctx.shadowBlur = size * 0.08;
+        ctx.shadowOffsetY = size * 0.04;
+        ctx.drawImage(removePadding(productImgs[index], background), -size / 2, -size / 2, size, size);
+        ctx.restore();
+    });
+
+    return canvas.toDataURL('image/jpeg', 0.95);
+  },
+
+  // Instructions need a real model; the scene comes back unchanged so the follow-up flow can still be tried.
+  editImage: async ({ sceneImage, signal }) => {
+    signal?.throwIfAborted();
+    const sceneImg = await loadImage(sceneImage);
+    signal?.throwIfAborted();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = sceneImg.width;
+    canvas.height = sceneImg.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for local editing.');
+    }
+    ctx.drawImage(sceneImg, 0, 0);
+    return canvas.toDataURL('image/jpeg', 0.95);
+  },
+
+  segmentProduct: async ({ image, signal }) => {
+    signal?.throwIfAborted();
+    const img = await loadImage(image);
+    signal?.throwIfAborted();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for local segmentation.');
+    }
+    ctx.drawImage(img, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const isBackdrop = findBackdrop(imageData.data, canvas.width, canvas.height);
+    for (let pixel = 0; pixel < isBackdrop.length; pixel++) {
+        const value = isBackdrop[pixel] ? 0 : 255;
+        imageData.data.fill(value, pixel * 4, pixel * 4 + 3);
+        imageData.data[pixel * 4 + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+
+    return {
+        box: { xPercent: 0, yPercent: 0, widthPercent: 100, heightPercent: 100 },
+        maskUrl: canvas.toDataURL('image/png'),
+    };
+  },
+});
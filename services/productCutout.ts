@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CompositingProvider, getCompositingProvider } from './compositingProvider';
+import { withRetry } from './geminiService';
+import { ProductCutout } from './imageOps';
+import { createCutout, fitImage } from './imagePipeline';
+
+// Longest side of the photo sent to the segmentation model.
+const SEGMENTATION_DIMENSION = 1024;
+
+export interface CreateProductCutoutOptions {
+  provider?: CompositingProvider;
+  signal?: AbortSignal;
+}
+
+/**
+ * Finds the product in an uploaded photo and cuts it out of its background, so the compose step
+ * receives the product alone instead of a lifestyle shot.
+ * @returns The transparent cutout and the mask it was cut with, for the refine brush.
+ */
+export const createProductCutout = async (image: Blob, options: CreateProductCutoutOptions = {}): Promise<ProductCutout> => {
+    const provider = options.provider ?? getCompositingProvider();
+    const { signal } = options;
+    const input = await fitImage({ image, maxDimension: SEGMENTATION_DIMENSION });
+    const segmentation = await withRetry('Product segmentation', () => provider.segmentProduct({
+        image: new File([input], 'product.jpeg', { type: 'image/jpeg' }),
+        signal,
+    }), signal);
+    const mask = await (await fetch(segmentation.maskUrl)).blob();
+    signal?.throwIfAborted();
+    return createCutout({ image, mask, box: segmentation.box });
+};
+
+// Cuts the product out again with a mask edited by the refine brush.
+export const refineProductCutout = (image: Blob, mask: Blob): Promise<ProductCutout> =>
+    createCutout({ image, mask });
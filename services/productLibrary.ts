@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ProductDimensions } from '../components/types';
+import { PROMPT_TEXT_LIMITS, truncateText } from './compositingPrompts';
+import { PRODUCTS_STORE, runStoreRequest } from './db';
+
+// A product as it is persisted in the library. The UI works with `Product`, which carries an object URL instead.
+export interface StoredProduct {
+  id: number;
+  name: string;
+  image: Blob;
+  createdAt: number;
+  dimensions?: ProductDimensions;
+  // The product cut out of `image` as a transparent PNG, and the mask it was cut with.
+  cutout?: Blob;
+  cutoutMask?: Blob;
+}
+
+// Returns every saved product, oldest first.
+export const listProducts = async (): Promise<StoredProduct[]> => {
+    const products = await runStoreRequest<StoredProduct[]>(PRODUCTS_STORE, 'readonly', store => store.getAll());
+    return products.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Saves an uploaded image into the library. The name defaults to the file name.
+export const addProduct = async (file: File, name: string = file.name): Promise<StoredProduct> => {
+    const record: Omit<StoredProduct, 'id'> = {
+        name: truncateText(name, PROMPT_TEXT_LIMITS.productName),
+        image: file,
+        createdAt: Date.now(),
+    };
+    const id = await runStoreRequest(PRODUCTS_STORE, 'readwrite', store => store.add(record));
+    return { ...record, id: id as number };
+};
+
+// Updates the editable fields (name, dimensions, cutout) of a saved product.
+export const updateProduct = async (id: number, changes: Partial<Pick<StoredProduct, 'name' | 'dimensions' | 'cutout' | 'cutoutMask'>>): Promise<void> => {
+    const product = await runStoreRequest<StoredProduct | undefined>(PRODUCTS_STORE, 'readonly', store => store.get(id));
+    if (!product) {
+        throw new Error('The product no longer exists in the library.');
+    }
+    await runStoreRequest(PRODUCTS_STORE, 'readwrite', store => store.put({ ...product, ...changes }));
+};
+
+export const deleteProduct = async (id: number): Promise<void> => {
+    await runStoreRequest(PRODUCTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Helper to turn a stored product back into a File that can be sent through the compositing pipeline.
+// The cutout is used whenever there is one.
+export const toProductFile = (product: StoredProduct): File =>
+    product.cutout
+        ? new File([product.cutout], product.name, { type: 'image/png' })
+        : new File([product.image], product.name, { type: product.image.type || 'image/jpeg' });
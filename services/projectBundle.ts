@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HistoryEntry, PlacementRecord, ProductDimensions, PromptTemplateRef, RemovalRecord, StageDurations } from '../components/types';
+import { SavedSession } from './sessionStore';
+import { withLinearParents } from './historyTree';
+
+// Identifies a Home Canvas project file. Bump PROJECT_VERSION whenever the manifest shape changes.
+export const PROJECT_FORMAT = 'home-canvas-project';
+export const PROJECT_VERSION = 6;
+export const PROJECT_FILE_EXTENSION = '.homecanvas.json';
+
+// Everything a project file carries. It is the same state that is kept for session restore.
+export type ProjectContents = Omit<SavedSession, 'savedAt'>;
+
+interface EncodedFile {
+  name: string;
+  type: string;
+  // Base64 data URL of the file contents.
+  data: string;
+}
+
+// A placement as stored in the manifest, with the product image encoded like the scenes.
+type ManifestPlacement = Omit<PlacementRecord, 'productFile'> & { productImage?: EncodedFile };
+
+// Version 1 files have no parent indices; their history is a straight line. Version 2 files cannot
+// be regenerated: they carry no product images, location descriptions or masks. Version 3 files
+// have no follow-up edits, version 4 files no object removals and version 5 files no replacements.
+interface ManifestHistoryEntry {
+  parentIndex?: number | null;
+  scene: EncodedFile;
+  alternateScenes: EncodedFile[];
+  persistedOrbPositions: { x: number; y: number }[];
+  debugImageUrl: string | null;
+  debugPrompt: string | null;
+  promptTemplate?: PromptTemplateRef;
+  productRotation: number;
+  productScale: number;
+  placements: ManifestPlacement[];
+  instruction?: string;
+  removedObject?: RemovalRecord;
+  mask?: EncodedFile;
+  stageDurations?: StageDurations;
+}
+
+// The first history entry is always the original, unedited scene.
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  exportedAt: string;
+  historyIndex: number;
+  productRotation: number;
+  productScale: number;
+  product: { id: number; name: string; image: EncodedFile; dimensions?: ProductDimensions; isCutout?: boolean } | null;
+  history: ManifestHistoryEntry[];
+}
+
+// Helper to convert File to a data URL string
+const fileToDataUrl = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+};
+
+const encodeFile = async (file: File): Promise<EncodedFile> => ({
+    name: file.name,
+    type: file.type,
+    data: await fileToDataUrl(file),
+});
+
+const decodeFile = async (encoded: EncodedFile): Promise<File> => {
+    if (!encoded || typeof encoded.data !== 'string' || !encoded.data.startsWith('data:')) {
+        throw new Error('The project file contains an invalid image.');
+    }
+    const blob = await (await fetch(encoded.data)).blob();
+    return new File([blob], encoded.name, { type: encoded.type || blob.type });
+};
+
+/**
+ * Bundles the scene history, the selected product and all debug data into a single JSON file.
+ * @returns A promise that resolves to the project file as a Blob, ready to be downloaded.
+ */
+export const exportProject = async (project: ProjectContents): Promise<Blob> => {
+    const history = await Promise.all(project.history.map(async (entry): Promise<ManifestHistoryEntry> => ({
+        parentIndex: entry.parentIndex,
+        scene: await encodeFile(entry.sceneFile),
+        alternateScenes: await Promise.all(entry.alternateSceneFiles.map(encodeFile)),
+        persistedOrbPositions: entry.persistedOrbPositions,
+        debugImageUrl: entry.debugImageUrl,
+        debugPrompt: entry.debugPrompt,
+        promptTemplate: entry.promptTemplate,
+        productRotation: entry.productRotation,
+        productScale: entry.productScale,
+        placements: await Promise.all(entry.placements.map(async ({ productFile, ...placement }) => ({
+            ...placement,
+            productImage: productFile && await encodeFile(productFile),
+        }))),
+        instruction: entry.instruction,
+        removedObject: entry.removedObject,
+        mask: entry.maskFile && await encodeFile(entry.maskFile),
+        stageDurations: entry.stageDurations,
+    })));
+
+    const manifest: ProjectManifest = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        exportedAt: new Date().toISOString(),
+        historyIndex: project.historyIndex,
+        productRotation: project.productRotation,
+        productScale: project.productScale,
+        product: project.product
+            ? {
+                id: project.product.id,
+                name: project.product.name,
+                image: await encodeFile(project.product.file),
+                dimensions: project.product.dimensions,
+                isCutout: project.product.isCutout,
+            }
+            : null,
+        history,
+    };
+
+    return new Blob([JSON.stringify(manifest)], { type: 'application/json' });
+};
+
+/**
+ * Reads a project file produced by `exportProject`.
+ * @returns A promise that resolves to the restored project, with undo/redo history intact.
+ */
+export const importProject = async (file: File): Promise<ProjectContents> => {
+    let manifest: ProjectManifest;
+    try {
+        manifest = JSON.parse(await file.text());
+    } catch {
+        throw new Error('The selected file is not a valid project file.');
+    }
+
+    if (manifest?.format !== PROJECT_FORMAT) {
+        throw new Error('The selected file is not a Home Canvas project.');
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > PROJECT_VERSION) {
+        throw new Error(`Unsupported project version ${manifest.version}. Please update the app to open it.`);
+    }
+    if (!Array.isArray(manifest.history) || manifest.history.length === 0) {
+        throw new Error('The project file does not contain a scene.');
+    }
+    const hasInvalidParent = manifest.history.some((entry, index) =>
+        entry.parentIndex !== undefined && entry.parentIndex !== null
+        && !(Number.isInteger(entry.parentIndex) && entry.parentIndex >= 0 && entry.parentIndex < index));
+    if (hasInvalidParent) {
+        throw new Error('The project file contains an invalid history.');
+    }
+
+    const history = withLinearParents(await Promise.all(manifest.history.map(async (entry): Promise<HistoryEntry> => ({
+        parentIndex: entry.parentIndex,
+        sceneFile: await decodeFile(entry.scene),
+        alternateSceneFiles: await Promise.all((entry.alternateScenes ?? []).map(decodeFile)),
+        persistedOrbPositions: entry.persistedOrbPositions ?? [],
+        debugImageUrl: entry.debugImageUrl ?? null,
+        debugPrompt: entry.debugPrompt ?? null,
+        promptTemplate: entry.promptTemplate,
+        productRotation: entry.productRotation ?? 0,
+        productScale: entry.productScale ?? 1,
+        placements: await Promise.all((entry.placements ?? []).map(async ({ productImage, ...placement }) => ({
+            ...placement,
+            scale: placement.scale ?? 1,
+            replacesObject: manifest.version >= 6 ? placement.replacesObject : undefined,
+            productFile: productImage && await decodeFile(productImage),
+        }))),
+        instruction: manifest.version >= 4 ? entry.instruction : undefined,
+        removedObject: manifest.version >= 5 ? entry.removedObject : undefined,
+        maskFile: entry.mask && await decodeFile(entry.mask),
+        stageDurations: entry.stageDurations,
+    }))));
+
+    return {
+        history,
+        historyIndex: Math.min(Math.max(manifest.historyIndex ?? 0, 0), history.length - 1),
+        product: manifest.product
+            ? {
+                id: manifest.product.id,
+                name: manifest.product.name,
+                file: await decodeFile(manifest.product.image),
+                dimensions: manifest.product.dimensions,
+                isCutout: manifest.product.isCutout,
+            }
+            : null,
+        productRotation: manifest.productRotation ?? 0,
+        productScale: manifest.productScale ?? 1,
+    };
+};
@@ -0,0 +1,356 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PromptTemplateRef } from '../components/types';
+import { PROMPT_TEMPLATES_STORE, SETTINGS_STORE, runStoreRequest } from './db';
+
+const ACTIVE_TEMPLATE_KEY = 'activePromptTemplateId';
+
+export type PromptTemplatePart =
+  'describe' | 'placement' | 'compose' | 'refine' | 'identify' | 'remove' | 'describeReplaced' | 'replacement' | 'replace';
+
+/**
+ * A named set of prompts for the compositing pipeline. Saving an edit stores a new version under
+ * the same id; earlier versions are kept so each history entry can point at the exact prompts it used.
+ *
+ * Templates use `{{name}}` for variables and `{{#name}}...{{/name}}` for text that only appears when
+ * the variable is set (`{{^name}}...{{/name}}` for when it is not).
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  // Asks the description model what lies under one marker. Rendered once per placement.
+  describe: string;
+  // The instructions for one product. Rendered once per placement and joined into {{placements}}.
+  placement: string;
+  // The instructions for one product that replaces an object, used instead of `placement` for it.
+  replacement: string;
+  // The prompt for the image model.
+  compose: string;
+  // The prompt for a follow-up edit of a composed scene.
+  refine: string;
+  // Asks the description model which object the user marked for removal.
+  identify: string;
+  // The prompt for taking that object out of the scene.
+  remove: string;
+  // Asks the description model what lies under a marker when the product is to replace it. Rendered once per replacement.
+  describeReplaced: string;
+  // The prompt for the image model when every product replaces an object in the scene.
+  replace: string;
+  updatedAt: number;
+}
+
+export const PROMPT_TEMPLATE_PARTS: { key: PromptTemplatePart; label: string }[] = [
+  { key: 'describe', label: 'Location description' },
+  { key: 'placement', label: 'Product instructions' },
+  { key: 'compose', label: 'Compose prompt' },
+  { key: 'refine', label: 'Follow-up edit' },
+  { key: 'identify', label: 'Object to remove' },
+  { key: 'remove', label: 'Remove prompt' },
+  { key: 'describeReplaced', label: 'Object to replace' },
+  { key: 'replacement', label: 'Replacement instructions' },
+  { key: 'replace', label: 'Replace prompt' },
+];
+
+// The variables each part is rendered with. Variables that do not apply to a placement are empty.
+export const PROMPT_TEMPLATE_VARIABLES: Record<PromptTemplatePart, { name: string; description: string }[]> = {
+  describe: [
+    { name: 'markerReference', description: 'How to refer to the marker, e.g. the red marker labelled "2"' },
+    { name: 'multiple', description: 'Set when several products are placed at once' },
+    { name: 'productName', description: 'The name of the product placed at this marker' },
+    { name: 'dimensions', description: 'The product\'s real-world size, e.g. 60 cm wide × 45 cm tall' },
+    { name: 'targetExtent', description: 'The area the product should fill, when a box was drawn' },
+  ],
+  placement: [
+    { name: 'label', description: '"Product", or "Product 2" when several products are placed' },
+    { name: 'multiple', description: 'Set when several products are placed at once' },
+    { name: 'productName', description: 'The name of the product' },
+    { name: 'locationDescription', description: 'The description of the drop location from the first step' },
+    { name: 'rotation', description: 'Clockwise rotation in degrees' },
+    { name: 'scalePercent', description: 'Size relative to the natural size, when it is not 100% and no box was drawn' },
+    { name: 'targetExtent', description: 'The area the product should fill, when a box was drawn' },
+    { name: 'dimensions', description: 'The product\'s real-world size' },
+  ],
+  replacement: [
+    { name: 'label', description: '"Product", or "Product 2" when several products are placed' },
+    { name: 'multiple', description: 'Set when several products are placed at once' },
+    { name: 'productName', description: 'The name of the product' },
+    { name: 'replacedObject', description: 'The description of the replaced object from the first step' },
+    { name: 'dimensions', description: 'The product\'s real-world size' },
+  ],
+  compose: [
+    { name: 'productCount', description: 'How many products are placed' },
+    { name: 'multiple', description: 'Set when several products are placed at once' },
+    { name: 'productsSpecification', description: 'Which input image is which product, and how it was cut out' },
+    { name: 'placements', description: 'The product (or replacement) instructions for every product' },
+    { name: 'hasMask', description: 'Set when the user painted an editable area' },
+  ],
+  refine: [
+    { name: 'instruction', description: 'The change the user asked for, e.g. make the lamp warmer' },
+    { name: 'hasProducts', description: 'Set when product images are sent along for reference' },
+    { name: 'productCount', description: 'How many product images are sent' },
+    { name: 'multiple', description: 'Set when several product images are sent' },
+    { name: 'productsSpecification', description: 'Which input image is which product, and how it was cut out' },
+    { name: 'hasMask', description: 'Set when the user painted an editable area' },
+  ],
+  identify: [
+    { name: 'selectionExtent', description: 'The area the user clicked or brushed over' },
+  ],
+  remove: [
+    { name: 'objectDescription', description: 'The description of the object from the identify step' },
+    { name: 'selectionExtent', description: 'The area the user clicked or brushed over' },
+    { name: 'hasMask', description: 'Set when the user painted an editable area' },
+  ],
+  describeReplaced: [
+    { name: 'markerReference', description: 'How to refer to the marker, e.g. the red marker labelled "2"' },
+    { name: 'multiple', description: 'Set when several products are placed at once' },
+    { name: 'productName', description: 'The name of the product that replaces the object' },
+    { name: 'dimensions', description: 'The product\'s real-world size, e.g. 60 cm wide × 45 cm tall' },
+  ],
+  replace: [
+    { name: 'productCount', description: 'How many products are placed' },
+    { name: 'multiple', description: 'Set when several products are placed at once' },
+    { name: 'productsSpecification', description: 'Which input image is which product, and how it was cut out' },
+    { name: 'placements', description: 'The replacement instructions for every product' },
+    { name: 'hasMask', description: 'Set when the user painted an editable area' },
+  ],
+};
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: 'default',
+  name: 'Default',
+  // Bump whenever the built-in text changes, so history entries never claim a version with different prompts.
+  version: 3,
+  updatedAt: 0,
+  describe: `
+You are an expert scene analyst. I will provide you with an image that has {{#multiple}}several numbered red markers{{/multiple}}{{^multiple}}a red marker{{/multiple}} on it.
+Your task is to provide a very dense, semantic description of what is at the exact location of {{markerReference}}.
+Be specific about surfaces, objects, and spatial relationships. This description will be used to guide another AI in placing a new object.
+
+Example semantic descriptions:
+- "The product location is on the dark grey fabric of the sofa cushion, in the middle section, slightly to the left of the white throw pillow."
+- "The product location is on the light-colored wooden floor, in the patch of sunlight coming from the window, about a foot away from the leg of the brown leather armchair."
+- "The product location is on the white marble countertop, just to the right of the stainless steel sink and behind the green potted plant."
+
+On top of the semantic description above, give a rough relative-to-image description.
+
+Example relative-to-image descriptions:
+- "The product location is about 10% away from the bottom-left of the image."
+- "The product location is about 20% away from the right of the image."
+
+{{#targetExtent}}
+The red rectangle drawn around {{markerReference}} outlines the area the product should occupy. Also describe what lies inside that rectangle and how large that area is compared to the surrounding objects.
+{{/targetExtent}}{{#dimensions}}
+The product that will be placed here measures {{dimensions}}. In the semantic description, also estimate the real-world size of the surface and the nearby objects at the marker (for example "a 2 m wide sofa" or "a 75 cm high table") so the product can be sized relative to them.
+{{/dimensions}}
+Provide only the two descriptions concatenated in a few sentences.
+`,
+  placement: `    -   **{{label}} location Description:** "{{locationDescription}}"
+    -   **{{label}} rotation:** Rotate {{#multiple}}it{{/multiple}}{{^multiple}}the product{{/multiple}} by approximately {{rotation}} degrees clockwise from its original orientation in its product image. The final orientation in the scene should be natural, taking this rotation into account.{{#targetExtent}}
+    -   **{{label}} target extent:** {{#multiple}}It{{/multiple}}{{^multiple}}The product{{/multiple}} must fill the area spanning {{targetExtent}}. Size and position {{#multiple}}it{{/multiple}}{{^multiple}}the product{{/multiple}} so that it occupies that area, following the scene's perspective.{{/targetExtent}}{{#scalePercent}}
+    -   **{{label}} scale:** Make {{#multiple}}it{{/multiple}}{{^multiple}}the product{{/multiple}} approximately {{scalePercent}}% of the size it would naturally have at this spot in the scene.{{/scalePercent}}{{#dimensions}}
+    -   **{{label}} real-world size:** {{dimensions}}. Size {{#multiple}}it{{/multiple}}{{^multiple}}the product{{/multiple}} relative to the furniture and objects around it using these measurements.{{/dimensions}}`,
+  replacement: `    -   **{{label}} replaces:** "{{replacedObject}}"
+    -   **{{label}} footprint and orientation:** Take that object out and put {{#multiple}}it{{/multiple}}{{^multiple}}the product{{/multiple}} where it stood, on the same footprint and facing the same way.{{#dimensions}}
+    -   **{{label}} real-world size:** {{dimensions}}. Size {{#multiple}}it{{/multiple}}{{^multiple}}the product{{/multiple}} relative to the furniture and objects around it using these measurements.{{/dimensions}}`,
+  compose: `
+**Role:**
+You are a visual composition expert. Your task is to take {{#multiple}}{{productCount}} 'product' images{{/multiple}}{{^multiple}}a 'product' image{{/multiple}} and seamlessly integrate {{#multiple}}them{{/multiple}}{{^multiple}}it{{/multiple}} into a 'scene' image, adjusting for perspective, lighting, and scale.
+
+**Specifications:**
+{{productsSpecification}}
+-   **Placement Instructions (Crucial):**
+    -   You must place {{#multiple}}each product{{/multiple}}{{^multiple}}the product{{/multiple}} at the location described below exactly. You should only place {{#multiple}}each product{{/multiple}}{{^multiple}}the product{{/multiple}} once. Use the dense, semantic description to find the exact spot in the scene.
+{{placements}}{{#hasMask}}
+-   **Editable Area (Crucial):**
+    -   The last image provided is a black and white mask aligned with the scene. You may only change pixels inside the white area. Everything in the black area must stay exactly as it is in the scene, including walls, furniture and lighting.{{/hasMask}}
+-   **Final Image Requirements:**
+    -   The output image's style, lighting, shadows, reflections, and camera perspective must exactly match the original scene.
+    -   Do not just copy and paste the product{{#multiple}}s{{/multiple}}. You must intelligently re-render {{#multiple}}each one{{/multiple}}{{^multiple}}it{{/multiple}} to fit the context. Adjust {{#multiple}}each product's{{/multiple}}{{^multiple}}the product's{{/multiple}} perspective and orientation to its most natural position, scale it appropriately, and ensure it casts realistic shadows according to the scene's light sources.
+    -   The product{{#multiple}}s{{/multiple}} must have proportional realism. For example, a lamp product can't be bigger than a sofa in scene.{{#multiple}} Keep the products in proportion to each other as well.{{/multiple}}
+    -   You must not return the original scene image without product placement. {{#multiple}}Every product must be present{{/multiple}}{{^multiple}}The product must be always present{{/multiple}} in the composite image.
+
+The output should ONLY be the final, composed image. Do not add any text or explanation.
+`,
+  refine: `
+**Role:**
+You are a visual editing expert. Your task is to make one requested change to a 'scene' image that has already been composed, and keep everything else about it as it is.
+
+**Specifications:**
+{{#hasProducts}}-   **Products in the scene:**
+    {{productsSpecification}}
+    Use {{#multiple}}these images{{/multiple}}{{^multiple}}this image{{/multiple}} only as a reference for what the product{{#multiple}}s{{/multiple}} in the scene look{{^multiple}}s{{/multiple}} like. Do not place {{#multiple}}them{{/multiple}}{{^multiple}}it{{/multiple}} a second time.
+-   **Scene to edit:**
+    The image provided right after the product{{#multiple}}s{{/multiple}}. It may be surrounded by black padding, which you should ignore.
+{{/hasProducts}}{{^hasProducts}}-   **Scene to edit:**
+    The first image provided. It may be surrounded by black padding, which you should ignore.
+{{/hasProducts}}-   **Requested Change (Crucial):**
+    -   "{{instruction}}"
+    -   Make this change and nothing else.{{#hasProducts}} If it refers to "it" or "the product", it means the product{{#multiple}}s{{/multiple}} placed in the scene.{{/hasProducts}}{{#hasMask}}
+-   **Editable Area (Crucial):**
+    -   The last image provided is a black and white mask aligned with the scene. You may only change pixels inside the white area. Everything in the black area must stay exactly as it is in the scene, including walls, furniture and lighting.{{/hasMask}}
+-   **Final Image Requirements:**
+    -   Apart from the requested change, the output must match the scene exactly: the same framing, camera perspective, style and objects.
+    -   Lighting, shadows and reflections must stay consistent with the scene's light sources, including where the change affects them.{{#hasProducts}}
+    -   The product{{#multiple}}s{{/multiple}} must stay recognisably the same as in {{#multiple}}their reference images{{/multiple}}{{^multiple}}its reference image{{/multiple}}, unless the change asks otherwise.{{/hasProducts}}
+
+The output should ONLY be the final, edited image. Do not add any text or explanation.
+`,
+  describeReplaced: `
+You are an expert scene analyst. I will provide you with an image that has {{#multiple}}several numbered red markers{{/multiple}}{{^multiple}}a red marker{{/multiple}} on it.
+The object at {{markerReference}} will be replaced with a new product, {{productName}}. Your task is to identify that object and describe it densely: what it is, its colour and material, and where it stands in the scene.
+Then describe its footprint and orientation precisely: where it meets the floor or the surface it stands on, how much of the image it spans, which way its front faces and how it is turned relative to the camera and the walls. The new product will take exactly this footprint and orientation.
+
+Example descriptions:
+- "The object is a brown leather armchair standing on the light oak floor in the lower left of the image, between the window and the round side table. Its legs cover about 20% of the image width; its front faces the camera, turned about 30 degrees to the right, with its back to the white wall."
+- "The object is a small white table lamp on the right end of the wooden sideboard, about 5% of the image wide. Its shade faces the viewer straight on."
+{{#dimensions}}
+The new product measures {{dimensions}}. Also estimate the real-world size of the object being replaced, so the product can be sized relative to it.
+{{/dimensions}}
+Provide only the description in a few sentences. Do not describe the red marker{{#multiple}}s{{/multiple}}.
+`,
+  replace: `
+**Role:**
+You are a visual composition expert. Your task is to swap {{#multiple}}{{productCount}} objects{{/multiple}}{{^multiple}}an object{{/multiple}} in a 'scene' image for {{#multiple}}the given 'product' images{{/multiple}}{{^multiple}}a 'product' image{{/multiple}}, adjusting for perspective, lighting, and scale.
+
+**Specifications:**
+{{productsSpecification}}
+-   **Replacement Instructions (Crucial):**
+    -   {{#multiple}}Each product replaces{{/multiple}}{{^multiple}}The product replaces{{/multiple}} the object described below. Use the dense, semantic description to find that object in the scene. Remove it completely, including its shadow, and put the product in its place exactly once.
+{{placements}}{{#hasMask}}
+-   **Editable Area (Crucial):**
+    -   The last image provided is a black and white mask aligned with the scene. You may only change pixels inside the white area. Everything in the black area must stay exactly as it is in the scene, including walls, furniture and lighting.{{/hasMask}}
+-   **Final Image Requirements:**
+    -   The output image's style, lighting, shadows, reflections, and camera perspective must exactly match the original scene.
+    -   Do not just copy and paste the product{{#multiple}}s{{/multiple}}. You must intelligently re-render {{#multiple}}each one{{/multiple}}{{^multiple}}it{{/multiple}} so that it stands where the replaced object stood and faces the same way, and ensure it casts realistic shadows according to the scene's light sources.
+    -   The product{{#multiple}}s{{/multiple}} must have proportional realism: size {{#multiple}}each one{{/multiple}}{{^multiple}}it{{/multiple}} by its own real-world size, not by stretching it to the outline of the replaced object. Where the product is smaller, fill the uncovered area with what would naturally be behind it.
+    -   Nothing of the replaced object{{#multiple}}s{{/multiple}} may remain, and {{#multiple}}every product must be present{{/multiple}}{{^multiple}}the product must be present{{/multiple}} in the composite image.
+
+The output should ONLY be the final, composed image. Do not add any text or explanation.
+`,
+  identify: `
+You are an expert scene analyst. I will provide you with an image that has a red marker on it, inside a red rectangle.
+The user wants to remove the object at the red marker from the scene. The rectangle outlines the area they clicked or brushed over, spanning {{selectionExtent}}; the object may extend beyond it.
+Your task is to identify that object and describe it densely: what it is, its colour and material, and where its edges are in the image. Mention anything it holds or carries, such as cushions on a chair, as part of it.
+Then describe what is around and behind it, such as the floor, wall or rug, so the space it leaves can be filled in.
+
+Example descriptions:
+- "The object is a brown leather armchair with a grey throw, standing on the light oak floor in the lower left of the image, from the edge of the window to the round side table. Behind it are the white wall and the bottom of the window; the floor and the edge of the blue rug continue under it."
+- "The object is a black floor lamp with a white shade in the right corner, about 40% of the image tall, in front of a beige wall with a skirting board."
+
+Provide only the description in a few sentences. Do not describe the red marker or rectangle.
+`,
+  remove: `
+**Role:**
+You are a visual editing expert. Your task is to remove one object from a 'scene' image and fill in the space it leaves, so that the scene looks as if the object had never been there.
+
+**Specifications:**
+-   **Scene to edit:**
+    The first image provided. It may be surrounded by black padding, which you should ignore.
+-   **Object to Remove (Crucial):**
+    -   "{{objectDescription}}"
+    -   It lies in or around the area spanning {{selectionExtent}}. Remove the whole object, including its shadow and reflections, and nothing else.{{#hasMask}}
+-   **Editable Area (Crucial):**
+    -   The last image provided is a black and white mask aligned with the scene. You may only change pixels inside the white area. Everything in the black area must stay exactly as it is in the scene, including walls, furniture and lighting.{{/hasMask}}
+-   **Final Image Requirements:**
+    -   Fill the space with what would naturally be behind the object: continue the floor, walls, patterns and lighting of the surrounding scene.
+    -   Apart from the removed object, the output must match the scene exactly: the same framing, camera perspective, style and objects.
+    -   You must not return the original scene unchanged. The object must be gone from the output image.
+
+The output should ONLY be the final, edited image. Do not add any text or explanation.
+`,
+};
+
+export type PromptVariables = Record<string, string | number | boolean | undefined>;
+
+const SECTION_PATTERN = /{{([#^])(\w+)}}([\s\S]*?){{\/\2}}/g;
+const VARIABLE_PATTERN = /{{(\w+)}}/g;
+
+const isSet = (value: PromptVariables[string]): boolean =>
+    value !== undefined && value !== false && value !== '';
+
+/**
+ * Fills a template with variables. Sections are resolved first, repeatedly so they may nest, then
+ * variables are substituted in a single pass, so values are never parsed as template syntax.
+ */
+export const renderPromptTemplate = (template: string, variables: PromptVariables): string => {
+    let resolved = template;
+    for (let previous = ''; previous !== resolved; ) {
+        previous = resolved;
+        resolved = resolved.replace(SECTION_PATTERN, (_, kind: string, name: string, body: string) =>
+            (kind === '#') === isSet(variables[name]) ? body : '');
+    }
+    return resolved.replace(VARIABLE_PATTERN, (_, name: string) => {
+        const value = variables[name];
+        return value === undefined || typeof value === 'boolean' ? '' : String(value);
+    });
+};
+
+// Lists the variables a template part uses that it is never given, which are almost always typos.
+export const findUnknownVariables = (part: PromptTemplatePart, template: string): string[] => {
+    const known = new Set(PROMPT_TEMPLATE_VARIABLES[part].map(variable => variable.name));
+    const used = [...template.matchAll(/{{[#^/]?(\w+)}}/g)].map(match => match[1]);
+    return [...new Set(used)].filter(name => !known.has(name));
+};
+
+export const toPromptTemplateRef = (template: PromptTemplate): PromptTemplateRef =>
+    ({ id: template.id, version: template.version, name: template.name });
+
+// The prompts of a template, without what identifies it. This is all that is needed to render them.
+export type PromptTemplateParts = Pick<PromptTemplate, PromptTemplatePart>;
+
+export const toPromptTemplateParts = (template: PromptTemplateParts): PromptTemplateParts =>
+    Object.fromEntries(PROMPT_TEMPLATE_PARTS.map(({ key }) => [key, template[key]])) as PromptTemplateParts;
+
+// Returns every saved version of every template, plus the built-in default.
+export const listPromptTemplates = async (): Promise<PromptTemplate[]> => {
+    const saved = await runStoreRequest<PromptTemplate[]>(PROMPT_TEMPLATES_STORE, 'readonly', store => store.getAll());
+    // Templates saved before follow-up edits, object removal or replacement existed use the default prompts for them.
+    const { refine, identify, remove, describeReplaced, replacement, replace } = DEFAULT_PROMPT_TEMPLATE;
+    return [DEFAULT_PROMPT_TEMPLATE, ...saved.map(template =>
+        ({ refine, identify, remove, describeReplaced, replacement, replace, ...template }))];
+};
+
+// Helper to keep only the newest version of each template, oldest template first.
+export const latestVersions = (templates: PromptTemplate[]): PromptTemplate[] => {
+    const latest = new Map<string, PromptTemplate>();
+    templates.forEach(template => {
+        const current = latest.get(template.id);
+        if (!current || template.version > current.version) latest.set(template.id, template);
+    });
+    return [...latest.values()];
+};
+
+/**
+ * Saves edited prompts as the next version of a template. The built-in default cannot be changed;
+ * save a copy of it under a new id instead.
+ */
+export const savePromptTemplate = async (
+    template: Pick<PromptTemplate, 'id' | 'name' | PromptTemplatePart>,
+    existing: PromptTemplate[]
+): Promise<PromptTemplate> => {
+    if (template.id === DEFAULT_PROMPT_TEMPLATE.id) {
+        throw new Error('The default template cannot be changed. Save a copy instead.');
+    }
+    const version = existing.reduce((highest, t) => t.id === template.id ? Math.max(highest, t.version) : highest, 0) + 1;
+    const record: PromptTemplate = { ...template, version, updatedAt: Date.now() };
+    await runStoreRequest(PROMPT_TEMPLATES_STORE, 'readwrite', store => store.put(record));
+    return record;
+};
+
+// Removes a template with all its versions.
+export const deletePromptTemplate = async (id: string): Promise<void> => {
+    await runStoreRequest(PROMPT_TEMPLATES_STORE, 'readwrite', store =>
+        store.delete(IDBKeyRange.bound([id, 0], [id, Infinity])));
+};
+
+export const loadActivePromptTemplateId = async (): Promise<string> =>
+    (await runStoreRequest<string | undefined>(SETTINGS_STORE, 'readonly', store => store.get(ACTIVE_TEMPLATE_KEY)))
+        ?? DEFAULT_PROMPT_TEMPLATE.id;
+
+export const saveActivePromptTemplateId = async (id: string): Promise<void> => {
+    await runStoreRequest(SETTINGS_STORE, 'readwrite', store => store.put(id, ACTIVE_TEMPLATE_KEY));
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  COMPOSITING_API_ROUTES, ComposeImageBody, ComposeImageResponse, DescribeLocationBody, DescribeLocationResponse,
+  EditImageBody, EditImageResponse, ErrorResponse, SegmentProductBody, SegmentProductResponse,
+} from './compositingApi';
+import { TransientError, errorFromPayload, errorFromStatus } from './compositingErrors';
+import { CompositingProvider } from './compositingProvider';
+import { toPromptTemplateParts } from './promptTemplates';
+
+// Helper to convert File to a data URL string
+const fileToDataUrl = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+};
+
+// Helper to call one backend endpoint and turn its failures back into typed compositing errors
+const post = async <T>(url: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal,
+        });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        // fetch rejects with a TypeError when the connection drops or the backend is not running.
+        throw new TransientError('The compositing server could not be reached.', { cause: error });
+    }
+    if (!response.ok) {
+        const payload = await response.json().catch(() => null) as ErrorResponse | null;
+        if (payload?.error) {
+            throw errorFromPayload(payload.error);
+        }
+        throw errorFromStatus(response.status, `The compositing server failed (${response.status} ${response.statusText}).`);
+    }
+    return response.json() as Promise<T>;
+};
+
+/**
+ * Creates a provider that runs every model-backed step on the compositing server (see `server/`),
+ * which holds the API key, renders the prompts and rate-limits each client. `baseUrl` is empty when the server shares
+ * the app's origin, as it does behind the Vite dev proxy.
+ */
+export const createProxyProvider = (baseUrl: string): CompositingProvider => ({
+  name: 'proxy',
+
+  describeLocation: async ({ markedSceneImage, template, promptInput, markerPosition, signal }) => {
+    const body: DescribeLocationBody = {
+      markedSceneImage: await fileToDataUrl(markedSceneImage),
+      template: toPromptTemplateParts(template),
+      promptInput,
+      markerPosition,
+    };
+    const { description } = await post<DescribeLocationResponse>(`${baseUrl}${COMPOSITING_API_ROUTES.describe}`, body, signal);
+    return description;
+  },
+
+  composeImage: async ({ products, sceneImage, mask, template, customPrompt, variant, signal }) => {
+    const body: ComposeImageBody = {
+      products: await Promise.all(products.map(async product => ({ ...product, image: await fileToDataUrl(product.image) }))),
+      sceneImage: await fileToDataUrl(sceneImage),
+      mask: mask && await fileToDataUrl(mask),
+      template: toPromptTemplateParts(template),
+      customPrompt,
+      variant,
+    };
+    const { imageUrl } = await post<ComposeImageResponse>(`${baseUrl}${COMPOSITING_API_ROUTES.compose}`, body, signal);
+    return imageUrl;
+  },
+
+  editImage: async ({ productImages, sceneImage, mask, template, promptInput, variant, signal }) => {
+    const body: EditImageBody = {
+      productImages: await Promise.all(productImages.map(fileToDataUrl)),
+      sceneImage: await fileToDataUrl(sceneImage),
+      mask: mask && await fileToDataUrl(mask),
+      template: toPromptTemplateParts(template),
+      promptInput,
+      variant,
+    };
+    const { imageUrl } = await post<EditImageResponse>(`${baseUrl}${COMPOSITING_API_ROUTES.edit}`, body, signal);
+    return imageUrl;
+  },
+
+  segmentProduct: async ({ image, signal }) => {
+    const body: SegmentProductBody = { image: await fileToDataUrl(image) };
+    return post<SegmentProductResponse>(`${baseUrl}${COMPOSITING_API_ROUTES.segment}`, body, signal);
+  },
+});
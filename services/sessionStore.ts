@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { HistoryEntry, ProductDimensions } from '../components/types';
+import { SESSION_STORE, runStoreRequest } from './db';
+import { withLinearParents } from './historyTree';
+
+// Only one editing session is kept; it is overwritten as the user works.
+const SESSION_KEY = 'current';
+
+export interface SavedProduct {
+  id: number;
+  name: string;
+  file: File;
+  dimensions?: ProductDimensions;
+  isCutout?: boolean;
+}
+
+export interface SavedSession {
+  history: HistoryEntry[];
+  historyIndex: number;
+  product: SavedProduct | null;
+  productRotation: number;
+  productScale: number;
+  savedAt: number;
+}
+
+export const loadSession = async (): Promise<SavedSession | null> => {
+    const session = await runStoreRequest<SavedSession | undefined>(SESSION_STORE, 'readonly', store => store.get(SESSION_KEY));
+    if (!session) return null;
+    // Sessions saved by older versions have no alternate scenes and a linear history.
+    return {
+        ...session,
+        history: withLinearParents(session.history.map(entry => ({ ...entry, alternateSceneFiles: entry.alternateSceneFiles ?? [] }))),
+    };
+};
+
+export const saveSession = async (session: Omit<SavedSession, 'savedAt'>): Promise<void> => {
+    const record: SavedSession = { ...session, savedAt: Date.now() };
+    await runStoreRequest(SESSION_STORE, 'readwrite', store => store.put(record, SESSION_KEY));
+};
+
+export const clearSession = async (): Promise<void> => {
+    await runStoreRequest(SESSION_STORE, 'readwrite', store => store.delete(SESSION_KEY));
+};
+
+// A session is only worth offering back if it holds a scene or a product.
+export const isSessionEmpty = (session: SavedSession): boolean =>
+    session.history.length === 0 && !session.product;